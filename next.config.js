@@ -5,6 +5,9 @@ const nextConfig = {
   images: {
     unoptimized: true
   },
+  eslint: {
+    dirs: ['src', 'server']
+  },
   // Disable server-side features for static export
   experimental: {
     appDir: true
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlaybackChangeReason, UserProfile } from '../src/sync/protocol';
+import { testMedia, testProfile } from '../src/sync/testFixtures';
+import { GroupPause } from './groupPause';
+import { Room, RoomManager } from './rooms';
+
+const GRACE_MS = 1500;
+const COUNTDOWN_MS = 3000;
+
+const host = testProfile('host');
+const viewer = testProfile('viewer');
+
+describe('GroupPause', () => {
+  let rooms: RoomManager;
+  let room: Room;
+  let groupPause: GroupPause;
+  let playbackChanges: PlaybackChangeReason[];
+  let waitingChanges: number;
+
+  // Reports the viewer's buffering state at a position (s), as their presence would
+  const setBuffering = (isBuffering: boolean, position = 42, inRoom = room) => {
+    const member = inRoom.members.get(viewer.clientId)!;
+    member.presence = {
+      position,
+      isPlaying: !isBuffering,
+      isBuffering,
+      drift: null,
+      rtt: null,
+      playbackRate: 1,
+      subtitleLanguage: null,
+      updatedAt: Date.now()
+    };
+    groupPause.update(inRoom, viewer.clientId, isBuffering);
+  };
+
+  // A room of `owner` and the viewer, playing from 40 s since two seconds ago
+  const openPlayingRoom = (owner: UserProfile) => {
+    const opened = rooms.create(`socket-${owner.displayName}`, owner);
+    rooms.join(opened.code, `socket-viewer-in-${owner.displayName}`, viewer);
+    opened.media = testMedia;
+    for (const member of opened.members.values()) {
+      member.media = testMedia;
+    }
+    rooms.setPlayback(opened, { currentTime: 40, isPlaying: true, playbackRate: 1 }, Date.now() - 2000);
+    return opened;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(100000);
+
+    rooms = new RoomManager(10);
+    room = openPlayingRoom(host);
+
+    playbackChanges = [];
+    waitingChanges = 0;
+    groupPause = new GroupPause(rooms, { graceMs: GRACE_MS, countdownMs: COUNTDOWN_MS }, {
+      onPlaybackChanged: (_room, reason) => playbackChanges.push(reason),
+      onWaitingChanged: () => waitingChanges++
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ignores buffering shorter than the grace period', () => {
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS - 100);
+    setBuffering(false);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    expect(room.waitingFor.size).toBe(0);
+    expect(room.playback?.mediaState.isPlaying).toBe(true);
+    expect(playbackChanges).toEqual([]);
+  });
+
+  it('pauses the room at the buffering member\'s position after the grace period', () => {
+    setBuffering(true, 41.5);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    expect(room.waitingFor).toEqual(new Set([viewer.clientId]));
+    expect(room.playback?.mediaState).toEqual({ currentTime: 41.5, isPlaying: false, playbackRate: 1 });
+    expect(playbackChanges).toEqual(['buffering']);
+    expect(waitingChanges).toBe(1);
+  });
+
+  it('pauses at the room\'s position when the member is far from it', () => {
+    setBuffering(true, 500);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    // 40 s plus the two seconds before and the grace period since the playback change
+    expect(room.playback?.mediaState.currentTime).toBeCloseTo(40 + 2 + GRACE_MS / 1000);
+  });
+
+  it('resumes everyone a countdown away once nobody is buffering', () => {
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS);
+    setBuffering(false);
+
+    expect(room.waitingFor.size).toBe(0);
+    expect(room.playback?.mediaState.isPlaying).toBe(true);
+    expect(room.playback?.timestamp).toBe(Date.now() + COUNTDOWN_MS);
+    expect(playbackChanges).toEqual(['buffering', 'resume']);
+  });
+
+  it('stops waiting for a member who leaves', () => {
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS);
+    groupPause.forget(room, viewer.clientId);
+
+    expect(room.waitingFor.size).toBe(0);
+    expect(playbackChanges).toEqual(['buffering', 'resume']);
+  });
+
+  it('ends the wait without resuming when cancelled', () => {
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS);
+    groupPause.cancel(room);
+
+    expect(room.waitingFor.size).toBe(0);
+    expect(room.playback?.mediaState.isPlaying).toBe(false);
+    expect(playbackChanges).toEqual(['buffering']);
+  });
+
+  it('does nothing in rooms that opted out', () => {
+    room.settings.waitForBuffering = false;
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    expect(room.waitingFor.size).toBe(0);
+    expect(playbackChanges).toEqual([]);
+  });
+
+  it('resumes when a waiting room opts out', () => {
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS);
+    room.settings.waitForBuffering = false;
+    groupPause.settingsChanged(room);
+
+    expect(room.waitingFor.size).toBe(0);
+    expect(room.playback?.mediaState.isPlaying).toBe(true);
+    expect(playbackChanges).toEqual(['buffering', 'resume']);
+  });
+
+  it('ignores members watching other media', () => {
+    room.members.get(viewer.clientId)!.media = { ...testMedia, hash: 'fedcba9876543210fedcba9876543210' };
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    expect(room.waitingFor.size).toBe(0);
+  });
+
+  it('keeps the grace periods of a member in two rooms apart', () => {
+    // The same client, watching in two tabs
+    const otherRoom = openPlayingRoom(testProfile('other-host'));
+    setBuffering(true);
+    vi.advanceTimersByTime(GRACE_MS / 2);
+    setBuffering(true, 42, otherRoom);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    expect(room.waitingFor).toEqual(new Set([viewer.clientId]));
+    expect(otherRoom.waitingFor).toEqual(new Set([viewer.clientId]));
+  });
+
+  it('does not clear a pending grace period from another room', () => {
+    const otherRoom = openPlayingRoom(testProfile('other-host'));
+    setBuffering(true, 42, otherRoom);
+    groupPause.forget(room, viewer.clientId);
+    vi.advanceTimersByTime(GRACE_MS);
+
+    expect(otherRoom.waitingFor).toEqual(new Set([viewer.clientId]));
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * "Wait for everyone": pauses a room while members are buffering
+ *
+ * A member still buffering after a short grace period pauses the room at
+ * their position. Once nobody is buffering any more, playback resumes for
+ * everyone at the same instant, a countdown away. Rooms can opt out through
+ * the `waitForBuffering` setting.
+ */
+import { PlaybackChangeReason, isSameMedia } from '../src/sync/protocol';
+import { extrapolatePosition } from '../src/sync/clock';
+import { Room, RoomManager } from './rooms';
+
+// How far (s) a buffering member may be from the room's position for the room to wait at theirs
+const MAX_HOLD_OFFSET = 10;
+
+export interface GroupPauseOptions {
+  // Buffering shorter than this, e.g. right after a seek, does not pause the room (ms)
+  graceMs: number;
+  // Time between everyone being ready and playback resuming (ms)
+  countdownMs: number;
+}
+
+export interface GroupPauseListeners {
+  // The room's playback was replaced, see Room.playback
+  onPlaybackChanged: (room: Room, reason: PlaybackChangeReason) => void;
+  // Room.waitingFor changed
+  onWaitingChanged: (room: Room) => void;
+}
+
+export class GroupPause {
+  // Room code and user id -> pending hold for a member who just started buffering
+  private graceTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(
+    private readonly rooms: RoomManager,
+    private readonly options: GroupPauseOptions,
+    private readonly listeners: GroupPauseListeners
+  ) {}
+
+  /**
+   * Handles a member's buffering state, as reported with their presence
+   */
+  update(room: Room, userId: string, isBuffering: boolean) {
+    if (!isBuffering) {
+      this.release(room, userId);
+      return;
+    }
+    if (room.waitingFor.size > 0) {
+      // Already waiting, wait for them too
+      this.hold(room, userId);
+      return;
+    }
+    const key = timerKey(room, userId);
+    if (this.graceTimers.has(key)) return;
+    this.graceTimers.set(key, setTimeout(() => {
+      this.graceTimers.delete(key);
+      this.hold(room, userId);
+    }, this.options.graceMs));
+  }
+
+  /**
+   * Stops waiting for a member who left or dropped out
+   */
+  forget(room: Room, userId: string) {
+    this.release(room, userId);
+  }
+
+  /**
+   * Ends the wait without resuming, when a member takes over playback
+   */
+  cancel(room: Room) {
+    if (room.waitingFor.size === 0) return;
+    for (const userId of room.waitingFor) {
+      this.clearGraceTimer(room, userId);
+    }
+    room.waitingFor.clear();
+    this.listeners.onWaitingChanged(room);
+  }
+
+  /**
+   * Applies a change of the room's `waitForBuffering` setting
+   */
+  settingsChanged(room: Room) {
+    if (room.settings.waitForBuffering || room.waitingFor.size === 0) return;
+    room.waitingFor.clear();
+    this.listeners.onWaitingChanged(room);
+    this.resume(room);
+  }
+
+  private hold(room: Room, userId: string) {
+    const member = room.members.get(userId);
+    // The member may have left or recovered since the grace period started
+    if (!member?.presence?.isBuffering || room.waitingFor.has(userId)) return;
+    if (!room.settings.waitForBuffering || !room.media || !member.media || !isSameMedia(member.media, room.media)) return;
+
+    if (room.waitingFor.size === 0) {
+      const playback = room.playback;
+      if (!playback?.mediaState.isPlaying) return;
+
+      const now = Date.now();
+      const roomPosition = extrapolatePosition(playback.mediaState, playback.timestamp, now);
+      const memberPosition = member.presence.position;
+      // Everyone waits where the member got stuck, so they are not pulled forward afterwards
+      const position = memberPosition !== null && Math.abs(memberPosition - roomPosition) <= MAX_HOLD_OFFSET
+        ? memberPosition
+        : roomPosition;
+      this.rooms.setPlayback(room, { ...playback.mediaState, currentTime: position, isPlaying: false }, now);
+      this.listeners.onPlaybackChanged(room, 'buffering');
+    }
+
+    room.waitingFor.add(userId);
+    this.listeners.onWaitingChanged(room);
+  }
+
+  private release(room: Room, userId: string) {
+    this.clearGraceTimer(room, userId);
+    if (!room.waitingFor.delete(userId)) return;
+
+    this.listeners.onWaitingChanged(room);
+    if (room.waitingFor.size === 0) {
+      this.resume(room);
+    }
+  }
+
+  private resume(room: Room) {
+    const playback = room.playback;
+    if (!playback) return;
+    const startAt = Date.now() + this.options.countdownMs;
+    this.rooms.setPlayback(room, { ...playback.mediaState, isPlaying: true }, startAt);
+    this.listeners.onPlaybackChanged(room, 'resume');
+  }
+
+  private clearGraceTimer(room: Room, userId: string) {
+    const key = timerKey(room, userId);
+    const timer = this.graceTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.graceTimers.delete(key);
+    }
+  }
+}
+
+// A member may be in one room while a timer started in another is still pending
+function timerKey(room: Room, userId: string): string {
+  return `${room.code}:${userId}`;
+}
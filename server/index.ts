@@ -0,0 +1,597 @@
+/**
+ * Self-hostable Socket.IO media sync server
+ *
+ * Implements the room and sync events emitted by the player page
+ * (src/app/player/page.tsx). Run with `npm run server`.
+ */
+import { randomUUID } from 'crypto';
+import { createServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { GroupPause } from './groupPause';
+import { RateLimiter } from './rateLimiter';
+import { JoinResult, Membership, Room, RoomManager } from './rooms';
+import {
+  Ack,
+  ClientPayload,
+  ClientToServerEvents,
+  MediaIdentity,
+  RoomErrorCode,
+  RoomOpData,
+  RoomOpEvent,
+  RoomOpResult,
+  ServerToClientEvents,
+  canControlPlayback,
+  clientEventValidators,
+  isSameMedia,
+  validated
+} from '../src/sync/protocol';
+
+type SyncSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+const PORT = Number(process.env.PORT) || 3002;
+const MAX_USERS_PER_ROOM = Number(process.env.MAX_USERS_PER_ROOM) || 50;
+// New rooms are refused with SERVER_BUSY beyond this many
+const MAX_ROOMS = Number(process.env.MAX_ROOMS) || 1000;
+// How long a disconnected member keeps their seat and role while the client reconnects (ms)
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 30000;
+// How long a member must be buffering before the room waits for them, and the countdown before it resumes (ms)
+const BUFFERING_GRACE_MS = Number(process.env.BUFFERING_GRACE_MS) || 1500;
+const RESUME_COUNTDOWN_MS = Number(process.env.RESUME_COUNTDOWN_MS) || 3000;
+// Lead time of "Start together", long enough for the broadcast to reach everyone (ms)
+const START_COUNTDOWN_MS = Number(process.env.START_COUNTDOWN_MS) || 3000;
+// Comma-separated list of allowed origins, '*' allows any origin
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+// Set when behind a reverse proxy, so clients are told apart by X-Forwarded-For
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+// Oldest sender timestamp (ms) accepted for a playback change, older ones are clamped to it.
+// Newer than the server's clock is clamped to now, so the room never extrapolates from the future.
+const MAX_SYNC_AGE_MS = 10000;
+
+const rooms = new RoomManager(MAX_USERS_PER_ROOM);
+// At most 5 chat messages every 10 seconds and 10 reactions every 5 seconds per member
+const chatLimiter = new RateLimiter(5, 10000);
+const reactionLimiter = new RateLimiter(10, 5000);
+// Failed password attempts per client address and room per minute, keeps room passwords
+// from being brute-forced. Entries outlive the socket so reconnecting does not reset them.
+const joinLimiter = new RateLimiter(10, 60000);
+setInterval(() => joinLimiter.prune(), 60000).unref();
+
+const httpServer = createServer((req, res) => {
+  if (req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok', rooms: rooms.size, uptime: process.uptime() }));
+    return;
+  }
+  res.writeHead(404);
+  res.end();
+});
+
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+  cors: {
+    origin: CORS_ORIGIN === '*' ? '*' : CORS_ORIGIN.split(',').map(origin => origin.trim()),
+    methods: ['GET', 'POST']
+  }
+});
+
+const groupPause = new GroupPause(rooms, { graceMs: BUFFERING_GRACE_MS, countdownMs: RESUME_COUNTDOWN_MS }, {
+  onPlaybackChanged: (room, reason) => {
+    if (room.playback) {
+      io.to(room.code).emit('playbackChanged', { playback: room.playback, reason });
+    }
+  },
+  onWaitingChanged: (room) => {
+    io.to(room.code).emit('waitingForMembers', { userIds: Array.from(room.waitingFor) });
+  }
+});
+
+/**
+ * Address of the client behind a socket, as reported by the proxy when trusted
+ */
+function clientAddress(socket: SyncSocket): string {
+  const forwarded = socket.handshake.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return socket.handshake.address;
+}
+
+/**
+ * Removes a socket from its current room and notifies the remaining members
+ */
+function leaveCurrentRoom(socket: SyncSocket): string | null {
+  const result = rooms.leave(socket.id);
+  if (!result) return null;
+
+  const { room, userId, member, newHostId } = result;
+  socket.leave(room.code);
+  chatLimiter.forget(userId);
+  reactionLimiter.forget(userId);
+  groupPause.forget(room, userId);
+  socket.to(room.code).emit('userLeft', {
+    userId,
+    displayName: member.displayName,
+    userCount: room.members.size
+  });
+  if (newHostId) {
+    io.to(room.code).emit('roleChanged', { userId: newHostId, role: 'host' });
+    console.log(`👑 ${newHostId} is now host of room ${room.code}`);
+  }
+  console.log(`👋 ${member.displayName} (${userId}) left room ${room.code} (${room.members.size} remaining)`);
+  return room.code;
+}
+
+/**
+ * Looks up the sender's room membership, answering with a roomError when it isn't in one
+ */
+function requireRoom(socket: SyncSocket): Membership | null {
+  const membership = rooms.membershipOf(socket.id);
+  if (!membership) {
+    socket.emit('roomError', { message: 'Not in a room' });
+    return null;
+  }
+  return membership;
+}
+
+function requireHost(socket: SyncSocket): Membership | null {
+  const membership = requireRoom(socket);
+  if (membership && membership.member.role !== 'host') {
+    socket.emit('roomError', { message: 'Only the host can do that' });
+    return null;
+  }
+  return membership;
+}
+
+function requirePlaybackControl(socket: SyncSocket): Membership | null {
+  const membership = requireRoom(socket);
+  if (membership && !canControlPlayback(membership.member.role, membership.room.settings)) {
+    socket.emit('roomError', { message: 'Only the host can control playback in this room' });
+    return null;
+  }
+  return membership;
+}
+
+/**
+ * Makes `media` what the room is watching. Playback positions and reactions
+ * in the previous media are meaningless for a different one.
+ */
+function switchRoomMedia(room: Room, media: MediaIdentity) {
+  const changed = !room.media || !isSameMedia(room.media, media);
+  room.media = media;
+  if (rooms.syncQueueWithMedia(room)) {
+    io.to(room.code).emit('queueUpdated', { queue: room.queue });
+  }
+  if (!changed) return;
+
+  room.playback = null;
+  groupPause.cancel(room);
+  room.reactions = [];
+  io.to(room.code).emit('reactionHistory', { reactions: [] });
+}
+
+function fail(code: RoomErrorCode, message: string): RoomOpResult<never> {
+  return { ok: false, error: { code, message } };
+}
+
+const joinErrors: Record<Extract<JoinResult, { ok: false }>['reason'], (roomCode: string) => RoomOpResult<never>> = {
+  NOT_FOUND: (roomCode) => fail('ROOM_NOT_FOUND', `Room ${roomCode} not found`),
+  FULL: (roomCode) => fail('ROOM_FULL', `Room ${roomCode} is full`),
+  PASSWORD_REQUIRED: (roomCode) => fail('PASSWORD_REQUIRED', `Room ${roomCode} requires a password`),
+  WRONG_PASSWORD: () => fail('WRONG_PASSWORD', 'Wrong password'),
+  LOCKED: (roomCode) => fail('ROOM_LOCKED', `Room ${roomCode} is locked`),
+  BANNED: (roomCode) => fail('BANNED', `You have been banned from room ${roomCode}`),
+  CLIENT_ID_IN_USE: (roomCode) => fail('CLIENT_ID_IN_USE', `Someone else in room ${roomCode} already uses your client id`)
+};
+
+/**
+ * Validates a client payload, answering invalid ones with a roomError
+ */
+function handle<E extends keyof ClientToServerEvents>(
+  socket: SyncSocket,
+  event: E,
+  handler: (data: ClientPayload<E>) => void
+) {
+  return validated(clientEventValidators, event, handler, () => {
+    socket.emit('roomError', { message: `Invalid ${event} request` });
+  });
+}
+
+/**
+ * Validates a room operation; the handler answers through `ack`, invalid requests
+ * are answered with INVALID_REQUEST
+ */
+function handleRequest<E extends RoomOpEvent>(
+  event: E,
+  handler: (data: ClientPayload<E>, ack: Ack<RoomOpData<E>>) => void
+) {
+  return (data: unknown, ack: unknown) => {
+    if (typeof ack !== 'function') {
+      console.warn(`Ignoring '${event}' request without acknowledgement`);
+      return;
+    }
+    const respond = ack as Ack<RoomOpData<E>>;
+    validated(clientEventValidators, event, (payload) => handler(payload, respond), () => {
+      respond(fail('INVALID_REQUEST', `Invalid ${event} request`));
+    })(data);
+  };
+}
+
+io.on('connection', (socket) => {
+  console.log(`🔌 Client connected: ${socket.id}`);
+
+  socket.on('createRoom', handleRequest('createRoom', (data, ack) => {
+    if (rooms.size >= MAX_ROOMS) {
+      ack(fail('SERVER_BUSY', 'The server is busy, try again later'));
+      return;
+    }
+    leaveCurrentRoom(socket);
+
+    const room = rooms.create(socket.id, data.profile, data.password);
+    socket.join(room.code);
+    ack({
+      ok: true,
+      data: {
+        roomCode: room.code,
+        userCount: room.members.size,
+        role: 'host',
+        settings: room.settings,
+        members: RoomManager.memberList(room)
+      }
+    });
+    console.log(`🏠 ${data.profile.displayName} (${data.profile.clientId}) created room ${room.code}`);
+  }));
+
+  socket.on('joinRoom', handleRequest('joinRoom', (data, ack) => {
+    const roomCode = RoomManager.normalizeCode(data.roomCode);
+    if (!roomCode) {
+      ack(fail('INVALID_REQUEST', 'Invalid room code'));
+      return;
+    }
+    // Members taking back their seat are never limited, they prove who they are with their secret
+    const limiterKey = `${clientAddress(socket)}:${roomCode}`;
+    if (!rooms.isReturningMember(roomCode, data.profile) && joinLimiter.isLimited(limiterKey)) {
+      ack(fail('RATE_LIMITED', 'Too many wrong passwords, wait a minute and try again'));
+      return;
+    }
+
+    if (rooms.membershipOf(socket.id)?.room.code !== roomCode) {
+      leaveCurrentRoom(socket);
+    }
+
+    const result = rooms.join(roomCode, socket.id, data.profile, data.password);
+    if (!result.ok) {
+      if (result.reason === 'PASSWORD_REQUIRED' || result.reason === 'WRONG_PASSWORD') {
+        joinLimiter.record(limiterKey);
+      }
+      ack(joinErrors[result.reason](roomCode));
+      return;
+    }
+
+    const { room, replacedSocketId } = result;
+    const { clientId: userId, displayName } = data.profile;
+    if (replacedSocketId) {
+      // The same client joined from another tab or reconnected, the old socket no longer speaks for it
+      io.in(replacedSocketId).socketsLeave(room.code);
+      io.to(replacedSocketId).emit('roomLeft', { roomCode: room.code });
+    }
+
+    socket.join(room.code);
+    ack({
+      ok: true,
+      data: {
+        roomCode: room.code,
+        userCount: room.members.size,
+        role: rooms.roleOf(room, userId) ?? 'viewer',
+        settings: room.settings,
+        members: RoomManager.memberList(room)
+      }
+    });
+    // Sent after the acknowledgement so the client handles them as a member
+    socket.emit('roomState', { playback: room.playback, media: room.media });
+    socket.emit('chatHistory', { messages: room.chat });
+    socket.emit('reactionHistory', { reactions: room.reactions });
+    socket.emit('queueUpdated', { queue: room.queue });
+    if (room.waitingFor.size > 0) {
+      socket.emit('waitingForMembers', { userIds: Array.from(room.waitingFor) });
+    }
+    socket.to(room.code).emit('userJoined', {
+      userId,
+      displayName,
+      userCount: room.members.size
+    });
+    console.log(`🚪 ${displayName} (${userId}) joined room ${room.code} (${room.members.size} users)`);
+  }));
+
+  socket.on('leaveRoom', handleRequest('leaveRoom', (_data, ack) => {
+    const roomCode = leaveCurrentRoom(socket);
+    ack(roomCode ? { ok: true, data: { roomCode } } : fail('NOT_IN_ROOM', 'Not in a room'));
+  }));
+
+  socket.on('syncMedia', handle(socket, 'syncMedia', (data) => {
+    const membership = rooms.membershipOf(socket.id);
+    if (!membership || RoomManager.normalizeCode(data.roomId) !== membership.room.code) {
+      socket.emit('roomError', { message: 'Cannot sync: not a member of this room' });
+      return;
+    }
+    const { room, userId, member } = membership;
+    if (!canControlPlayback(member.role, room.settings)) {
+      socket.emit('roomError', { message: 'Only the host can control playback in this room' });
+      return;
+    }
+
+    const mediaState = {
+      currentTime: data.mediaState.currentTime,
+      isPlaying: data.mediaState.isPlaying,
+      playbackRate: data.mediaState.playbackRate
+    };
+    // The sender's clock estimate may be off, unsynced or made up; late joiners extrapolate from it too
+    const now = Date.now();
+    const timestamp = Math.min(Math.max(data.timestamp, now - MAX_SYNC_AGE_MS), now);
+    const playback = rooms.setPlayback(room, mediaState, timestamp);
+    // A member taking over playback ends any wait for buffering members
+    groupPause.cancel(room);
+    // The sender gets it too, as confirmation of the version its change became
+    io.to(room.code).emit('syncMedia', {
+      mediaState,
+      senderId: userId,
+      senderName: member.displayName,
+      syncType: data.syncType,
+      timestamp,
+      seq: data.seq,
+      version: playback.version
+    });
+  }));
+
+  socket.on('startTogether', handle(socket, 'startTogether', (data) => {
+    const membership = requirePlaybackControl(socket);
+    if (!membership) return;
+
+    const { room, member } = membership;
+    const mediaState = { currentTime: data.currentTime, isPlaying: true, playbackRate: data.playbackRate };
+    // Everyone, the sender included, holds until the same server-clock instant
+    const playback = rooms.setPlayback(room, mediaState, Date.now() + START_COUNTDOWN_MS);
+    groupPause.cancel(room);
+    io.to(room.code).emit('playbackChanged', { playback, reason: 'countdown' });
+    console.log(`⏱️ ${member.displayName} started playback together in room ${room.code}`);
+  }));
+
+  socket.on('queueAdd', handle(socket, 'queueAdd', (data) => {
+    const membership = requirePlaybackControl(socket);
+    if (!membership) return;
+
+    const { room, userId } = membership;
+    if (!rooms.addToQueue(room, data.media, userId)) {
+      socket.emit('roomError', { message: `Cannot add "${data.media.name}": already queued or the queue is full` });
+      return;
+    }
+    // Queueing what the room is already watching makes it the current entry
+    rooms.syncQueueWithMedia(room);
+    io.to(room.code).emit('queueUpdated', { queue: room.queue });
+  }));
+
+  socket.on('queueRemove', handle(socket, 'queueRemove', (data) => {
+    const { room } = requirePlaybackControl(socket) ?? {};
+    if (!room || !rooms.removeFromQueue(room, data.entryId)) return;
+    io.to(room.code).emit('queueUpdated', { queue: room.queue });
+  }));
+
+  socket.on('queueMove', handle(socket, 'queueMove', (data) => {
+    const { room } = requirePlaybackControl(socket) ?? {};
+    if (!room || !rooms.moveInQueue(room, data.entryId, data.index)) return;
+    io.to(room.code).emit('queueUpdated', { queue: room.queue });
+  }));
+
+  socket.on('queuePlay', handle(socket, 'queuePlay', (data) => {
+    const { room } = requirePlaybackControl(socket) ?? {};
+    const entry = room?.queue.entries.find(item => item.id === data.entryId);
+    if (!room || !entry) return;
+    switchRoomMedia(room, entry.media);
+  }));
+
+  socket.on('queueAdvance', handle(socket, 'queueAdvance', (data) => {
+    const { room } = requirePlaybackControl(socket) ?? {};
+    // Everyone reaching the end asks; only the first request for the current entry counts
+    if (!room || room.queue.currentId !== data.entryId) return;
+
+    const { entries } = room.queue;
+    const next = entries[entries.findIndex(entry => entry.id === data.entryId) + 1];
+    if (next) {
+      switchRoomMedia(room, next.media);
+      console.log(`⏭️ Room ${room.code} moved on to ${next.media.name}`);
+    }
+  }));
+
+  socket.on('updateRoomSettings', handle(socket, 'updateRoomSettings', (data) => {
+    const { room } = requireHost(socket) ?? {};
+    if (!room) return;
+
+    room.settings = {
+      hostControlsPlayback: data.settings.hostControlsPlayback ?? room.settings.hostControlsPlayback,
+      locked: data.settings.locked ?? room.settings.locked,
+      waitForBuffering: data.settings.waitForBuffering ?? room.settings.waitForBuffering
+    };
+    io.to(room.code).emit('roomSettingsChanged', { settings: room.settings });
+    groupPause.settingsChanged(room);
+  }));
+
+  socket.on('setRole', handle(socket, 'setRole', (data) => {
+    const { room } = requireHost(socket) ?? {};
+    if (!room) return;
+
+    const currentRole = rooms.roleOf(room, data.userId);
+    if (!currentRole || currentRole === 'host') {
+      socket.emit('roomError', { message: 'Cannot change the role of that user' });
+      return;
+    }
+    rooms.setRole(room, data.userId, data.role);
+    io.to(room.code).emit('roleChanged', { userId: data.userId, role: data.role });
+  }));
+
+  socket.on('removeMember', handle(socket, 'removeMember', (data) => {
+    const { room } = requireHost(socket) ?? {};
+    if (!room) return;
+
+    const removed = rooms.removeMember(room, data.userId, data.ban);
+    if (!removed) {
+      socket.emit('roomError', { message: 'Cannot remove that user' });
+      return;
+    }
+    io.in(removed.socketId).socketsLeave(room.code);
+    io.to(removed.socketId).emit('removedFromRoom', { roomCode: room.code, banned: data.ban });
+    chatLimiter.forget(data.userId);
+    reactionLimiter.forget(data.userId);
+    groupPause.forget(room, data.userId);
+    io.to(room.code).emit('userLeft', {
+      userId: data.userId,
+      displayName: removed.displayName,
+      userCount: room.members.size
+    });
+    console.log(`🚫 ${data.userId} was ${data.ban ? 'banned from' : 'removed from'} room ${room.code}`);
+  }));
+
+  socket.on('transferHost', handle(socket, 'transferHost', (data) => {
+    const membership = requireHost(socket);
+    if (!membership) return;
+
+    const { room, userId } = membership;
+    if (!rooms.transferHost(room, userId, data.userId)) {
+      socket.emit('roomError', { message: 'Cannot transfer host to that user' });
+      return;
+    }
+    io.to(room.code).emit('roleChanged', { userId: data.userId, role: 'host' });
+    io.to(room.code).emit('roleChanged', { userId, role: 'cohost' });
+    console.log(`👑 ${userId} handed host of room ${room.code} to ${data.userId}`);
+  }));
+
+  socket.on('playbackRequest', handle(socket, 'playbackRequest', (data) => {
+    const membership = requireRoom(socket);
+    if (!membership) return;
+
+    // Only those who can act on the request receive it
+    const { room, userId } = membership;
+    for (const [memberId, member] of room.members) {
+      if (memberId !== userId && canControlPlayback(member.role, room.settings)) {
+        io.to(member.socketId).emit('playbackRequested', { ...data, userId });
+      }
+    }
+  }));
+
+  socket.on('announceMedia', handle(socket, 'announceMedia', (data) => {
+    const membership = requireRoom(socket);
+    if (!membership) return;
+
+    const { room, userId, member } = membership;
+    member.media = data.media;
+    io.to(room.code).emit('mediaAnnounced', { userId, media: data.media });
+
+    // Only members who drive playback define what the room is watching
+    if (canControlPlayback(member.role, room.settings)) {
+      switchRoomMedia(room, data.media);
+    }
+  }));
+
+  socket.on('requestRoomState', handle(socket, 'requestRoomState', () => {
+    const { room } = requireRoom(socket) ?? {};
+    if (!room) return;
+
+    socket.emit('roomState', { playback: room.playback, media: room.media });
+  }));
+
+  socket.on('presenceUpdate', handle(socket, 'presenceUpdate', (data) => {
+    const membership = rooms.membershipOf(socket.id);
+    if (!membership) return;
+
+    const { room, userId, member } = membership;
+    member.presence = { ...data.presence, updatedAt: Date.now() };
+    // Presence is refreshed periodically, dropping an update under load is harmless
+    io.to(room.code).volatile.emit('presenceUpdated', { userId, presence: member.presence });
+    groupPause.update(room, userId, data.presence.isBuffering);
+  }));
+
+  socket.on('updateProfile', handle(socket, 'updateProfile', (data) => {
+    const membership = requireRoom(socket);
+    if (!membership) return;
+
+    const { room, userId, member } = membership;
+    member.displayName = data.displayName;
+    io.to(room.code).emit('profileUpdated', { userId, displayName: data.displayName });
+  }));
+
+  socket.on('sendChatMessage', handle(socket, 'sendChatMessage', (data) => {
+    const membership = requireRoom(socket);
+    if (!membership) return;
+
+    const { room, userId, member } = membership;
+    if (!chatLimiter.tryAcquire(userId)) {
+      socket.emit('roomError', { message: 'You are sending messages too quickly' });
+      return;
+    }
+
+    const message = {
+      id: randomUUID(),
+      userId,
+      displayName: member.displayName,
+      text: data.text.trim(),
+      sentAt: Date.now(),
+      mediaTime: data.mediaTime
+    };
+    rooms.addChatMessage(room, message);
+    // Echoed to the sender as well, so everyone sees the same order
+    io.to(room.code).emit('chatMessage', message);
+  }));
+
+  socket.on('chatTyping', handle(socket, 'chatTyping', (data) => {
+    const membership = rooms.membershipOf(socket.id);
+    if (!membership) return;
+
+    const { room, userId, member } = membership;
+    socket.to(room.code).volatile.emit('chatTyping', {
+      userId,
+      displayName: member.displayName,
+      isTyping: data.isTyping
+    });
+  }));
+
+  socket.on('sendReaction', handle(socket, 'sendReaction', (data) => {
+    const membership = requireRoom(socket);
+    if (!membership) return;
+
+    const { room, userId, member } = membership;
+    // Excess reactions are dropped silently, they are not worth an error
+    if (!reactionLimiter.tryAcquire(userId)) return;
+
+    const reaction = {
+      id: randomUUID(),
+      userId,
+      displayName: member.displayName,
+      emoji: data.emoji,
+      mediaTime: data.mediaTime,
+      sentAt: Date.now()
+    };
+    rooms.addReaction(room, reaction);
+    io.to(room.code).emit('reaction', reaction);
+  }));
+
+  socket.on('clockPing', handle(socket, 'clockPing', (data) => {
+    socket.emit('clockPong', { clientTime: data.clientTime, serverTime: Date.now() });
+  }));
+
+  socket.on('disconnect', (reason) => {
+    const membership = rooms.membershipOf(socket.id);
+    if (membership) {
+      // Nobody waits for a member who can no longer report being ready
+      groupPause.forget(membership.room, membership.userId);
+      // Hold the seat; a rejoin with the same client id takes it over and ends this membership
+      setTimeout(() => {
+        if (rooms.membershipOf(socket.id)) {
+          leaveCurrentRoom(socket);
+        }
+      }, RECONNECT_GRACE_MS);
+    }
+    console.log(`🔌 Client disconnected: ${socket.id} (${reason})`);
+  });
+});
+
+httpServer.listen(PORT, () => {
+  console.log(`🚀 Media sync server listening on port ${PORT}`);
+});
@@ -0,0 +1,31 @@
+/**
+ * Room password and client secret hashing. Rooms only live in memory, but
+ * plain-text credentials would still end up in heap dumps and crash reports.
+ */
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 32;
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export function verifyPassword(password: string, hash: string): boolean {
+  const [saltHex, keyHex] = hash.split(':');
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), KEY_LENGTH);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Client secrets are long random values, a plain digest is enough for them
+ */
+export function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function verifySecret(secret: string, hash: string): boolean {
+  return timingSafeEqual(Buffer.from(hashSecret(secret), 'hex'), Buffer.from(hash, 'hex'));
+}
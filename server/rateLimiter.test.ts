@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+describe('RateLimiter', () => {
+  it('refuses events beyond the limit until the window has passed', () => {
+    const limiter = new RateLimiter(2, 1000);
+
+    expect(limiter.tryAcquire('a', 0)).toBe(true);
+    expect(limiter.tryAcquire('a', 100)).toBe(true);
+    expect(limiter.tryAcquire('a', 200)).toBe(false);
+    expect(limiter.tryAcquire('b', 200)).toBe(true);
+    expect(limiter.tryAcquire('a', 1000)).toBe(true);
+  });
+
+  it('only counts recorded events towards the limit', () => {
+    const limiter = new RateLimiter(2, 1000);
+
+    expect(limiter.isLimited('a', 0)).toBe(false);
+    limiter.record('a', 0);
+    limiter.record('a', 100);
+    expect(limiter.isLimited('a', 200)).toBe(true);
+    expect(limiter.isLimited('a', 1100)).toBe(false);
+  });
+
+  it('prunes keys whose events have all left the window', () => {
+    const limiter = new RateLimiter(1, 1000);
+    limiter.record('a', 0);
+    limiter.record('b', 900);
+
+    limiter.prune(1000);
+
+    expect(limiter.isLimited('a', 1000)).toBe(false);
+    expect(limiter.isLimited('b', 1000)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Sliding-window rate limiter, keyed by whatever the caller limits (member, address)
+ */
+export class RateLimiter {
+  // Key -> times (ms) of the recorded events inside the current window, oldest first
+  private events: Map<string, number[]> = new Map();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /**
+   * Records an event for `key`, returning false if it exceeds the limit
+   */
+  tryAcquire(key: string, now: number = Date.now()): boolean {
+    if (this.isLimited(key, now)) return false;
+    this.record(key, now);
+    return true;
+  }
+
+  /**
+   * Whether `key` has used up the limit, without recording anything
+   */
+  isLimited(key: string, now: number = Date.now()): boolean {
+    return this.recent(key, now).length >= this.limit;
+  }
+
+  /**
+   * Records an event for `key` that already happened, e.g. a failed attempt
+   */
+  record(key: string, now: number = Date.now()) {
+    this.events.set(key, [...this.recent(key, now), now].slice(-this.limit));
+  }
+
+  forget(key: string) {
+    this.events.delete(key);
+  }
+
+  /**
+   * Drops keys with no event left inside the window
+   */
+  prune(now: number = Date.now()) {
+    for (const [key, times] of this.events) {
+      if (times.every(time => now - time >= this.windowMs)) {
+        this.events.delete(key);
+      }
+    }
+  }
+
+  private recent(key: string, now: number): number[] {
+    return (this.events.get(key) ?? []).filter(time => now - time < this.windowMs);
+  }
+}
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import { UserProfile } from '../src/sync/protocol';
+import { testProfile } from '../src/sync/testFixtures';
+import { Room, RoomManager } from './rooms';
+
+const alice = testProfile('alice');
+const bob = testProfile('bob');
+const carol = testProfile('carol');
+
+function joinOrThrow(rooms: RoomManager, room: Room, socketId: string, who: UserProfile, password?: string) {
+  const result = rooms.join(room.code, socketId, who, password);
+  if (!result.ok) throw new Error(`${who.displayName} could not join: ${result.reason}`);
+  return result;
+}
+
+describe('RoomManager', () => {
+  it('normalises room codes', () => {
+    expect(RoomManager.normalizeCode('  abc123 ')).toBe('ABC123');
+    expect(RoomManager.normalizeCode('   ')).toBeNull();
+    expect(RoomManager.normalizeCode(42)).toBeNull();
+  });
+
+  it('rejects unknown rooms and full rooms', () => {
+    const rooms = new RoomManager(2);
+    const room = rooms.create('socket-a', alice);
+    joinOrThrow(rooms, room, 'socket-b', bob);
+
+    expect(rooms.join('NOSUCH', 'socket-c', carol)).toEqual({ ok: false, reason: 'NOT_FOUND' });
+    expect(rooms.join(room.code, 'socket-c', carol)).toEqual({ ok: false, reason: 'FULL' });
+  });
+
+  it('deletes rooms once the last member has left', () => {
+    const rooms = new RoomManager(10);
+    const room = rooms.create('socket-a', alice);
+    joinOrThrow(rooms, room, 'socket-b', bob);
+
+    rooms.leave('socket-b');
+    expect(rooms.size).toBe(1);
+    rooms.leave('socket-a');
+    expect(rooms.size).toBe(0);
+    expect(rooms.get(room.code)).toBeUndefined();
+    expect(rooms.membershipOf('socket-a')).toBeNull();
+  });
+
+  it('recognises returning members by their secret', () => {
+    const rooms = new RoomManager(10);
+    const room = rooms.create('socket-a', alice);
+
+    expect(rooms.isReturningMember(room.code, alice)).toBe(true);
+    expect(rooms.isReturningMember(room.code, { ...alice, clientSecret: 'guessed-secret-0000' })).toBe(false);
+    expect(rooms.isReturningMember(room.code, bob)).toBe(false);
+    expect(rooms.isReturningMember('NOSUCH', alice)).toBe(false);
+  });
+
+  describe('roles', () => {
+    it('makes the creator host and later members viewers, in join order', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      joinOrThrow(rooms, room, 'socket-b', bob);
+      joinOrThrow(rooms, room, 'socket-c', carol);
+
+      expect(RoomManager.memberList(room).map(member => [member.displayName, member.role])).toEqual([
+        ['alice', 'host'],
+        ['bob', 'viewer'],
+        ['carol', 'viewer']
+      ]);
+      expect(rooms.membershipOf('socket-b')?.userId).toBe(bob.clientId);
+    });
+
+    it('passes the host role to the longest-standing co-host when the host leaves', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      joinOrThrow(rooms, room, 'socket-b', bob);
+      joinOrThrow(rooms, room, 'socket-c', carol);
+      rooms.setRole(room, carol.clientId, 'cohost');
+
+      expect(rooms.leave('socket-a')?.newHostId).toBe(carol.clientId);
+      expect(rooms.roleOf(room, carol.clientId)).toBe('host');
+      expect(rooms.roleOf(room, bob.clientId)).toBe('viewer');
+    });
+
+    it('passes the host role to the longest-standing member without co-hosts', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      joinOrThrow(rooms, room, 'socket-b', bob);
+      joinOrThrow(rooms, room, 'socket-c', carol);
+
+      expect(rooms.leave('socket-a')?.newHostId).toBe(bob.clientId);
+      expect(rooms.roleOf(room, bob.clientId)).toBe('host');
+    });
+
+    it('keeps the host when a viewer leaves', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      joinOrThrow(rooms, room, 'socket-b', bob);
+
+      expect(rooms.leave('socket-b')?.newHostId).toBeNull();
+      expect(rooms.roleOf(room, alice.clientId)).toBe('host');
+    });
+
+    it('makes the previous host co-host on transfer', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      joinOrThrow(rooms, room, 'socket-b', bob);
+
+      expect(rooms.transferHost(room, bob.clientId, alice.clientId)).toBe(false);
+      expect(rooms.transferHost(room, alice.clientId, alice.clientId)).toBe(false);
+      expect(rooms.transferHost(room, alice.clientId, bob.clientId)).toBe(true);
+      expect(rooms.roleOf(room, bob.clientId)).toBe('host');
+      expect(rooms.roleOf(room, alice.clientId)).toBe('cohost');
+    });
+  });
+
+  describe('persistent identity', () => {
+    it('hands a returning client its membership and role on a new socket', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      joinOrThrow(rooms, room, 'socket-b', bob);
+
+      const result = joinOrThrow(rooms, room, 'socket-a2', { ...alice, displayName: 'alice again' });
+
+      expect(result.replacedSocketId).toBe('socket-a');
+      expect(rooms.membershipOf('socket-a')).toBeNull();
+      expect(rooms.membershipOf('socket-a2')?.member).toMatchObject({ role: 'host', displayName: 'alice again' });
+      expect(room.members.size).toBe(2);
+    });
+
+    it('refuses a client id presented without its secret', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+
+      const impostor = { ...alice, clientSecret: 'guessed-secret-0000' };
+      expect(rooms.join(room.code, 'socket-x', impostor)).toEqual({ ok: false, reason: 'CLIENT_ID_IN_USE' });
+      expect(rooms.membershipOf('socket-a')?.member.role).toBe('host');
+      expect(rooms.membershipOf('socket-x')).toBeNull();
+    });
+
+    it('never stores the client secret itself', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+
+      expect(JSON.stringify(room.members.get(alice.clientId))).not.toContain(alice.clientSecret);
+    });
+  });
+
+  describe('access control', () => {
+    it('keeps newcomers out of locked rooms', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      room.settings.locked = true;
+
+      expect(rooms.join(room.code, 'socket-b', bob)).toEqual({ ok: false, reason: 'LOCKED' });
+    });
+
+    it('checks the room password', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice, 'popcorn');
+
+      expect(room.passwordHash).not.toContain('popcorn');
+      expect(rooms.join(room.code, 'socket-b', bob)).toEqual({ ok: false, reason: 'PASSWORD_REQUIRED' });
+      expect(rooms.join(room.code, 'socket-b', bob, 'butter')).toEqual({ ok: false, reason: 'WRONG_PASSWORD' });
+      expect(rooms.join(room.code, 'socket-b', bob, 'popcorn').ok).toBe(true);
+    });
+
+    it('lets members back in without the password although the room was locked meanwhile', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice, 'popcorn');
+      joinOrThrow(rooms, room, 'socket-b', bob, 'popcorn');
+      room.settings.locked = true;
+
+      expect(rooms.join(room.code, 'socket-b2', bob).ok).toBe(true);
+    });
+
+    it('checks the secret before the lock and password of a taken client id', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice, 'popcorn');
+      room.settings.locked = true;
+
+      const impostor = { ...alice, clientSecret: 'guessed-secret-0000' };
+      expect(rooms.join(room.code, 'socket-x', impostor, 'popcorn')).toEqual({ ok: false, reason: 'CLIENT_ID_IN_USE' });
+    });
+
+    it('keeps removed members out once banned', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+      joinOrThrow(rooms, room, 'socket-b', bob);
+      joinOrThrow(rooms, room, 'socket-c', carol);
+
+      expect(rooms.removeMember(room, bob.clientId, false)?.socketId).toBe('socket-b');
+      expect(rooms.removeMember(room, carol.clientId, true)?.socketId).toBe('socket-c');
+      expect(rooms.membershipOf('socket-c')).toBeNull();
+
+      expect(rooms.join(room.code, 'socket-b2', bob).ok).toBe(true);
+      expect(rooms.join(room.code, 'socket-c2', carol)).toEqual({ ok: false, reason: 'BANNED' });
+    });
+
+    it('never removes the host', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+
+      expect(rooms.removeMember(room, alice.clientId, true)).toBeNull();
+      expect(room.members.has(alice.clientId)).toBe(true);
+    });
+  });
+
+  describe('late joiners', () => {
+    it('have no playback to catch up with before anyone played', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+
+      expect(room.playback).toBeNull();
+    });
+
+    it('get the latest playback, under a version that only grows', () => {
+      const rooms = new RoomManager(10);
+      const room = rooms.create('socket-a', alice);
+
+      rooms.setPlayback(room, { currentTime: 10, isPlaying: true, playbackRate: 1 }, 1000);
+      rooms.setPlayback(room, { currentTime: 20, isPlaying: false, playbackRate: 1 }, 2000);
+      room.playback = null; // The room switched media
+      const latest = rooms.setPlayback(room, { currentTime: 0, isPlaying: true, playbackRate: 1.5 }, 3000);
+
+      expect(latest).toEqual({ mediaState: { currentTime: 0, isPlaying: true, playbackRate: 1.5 }, timestamp: 3000, version: 3 });
+      expect(room.playback).toBe(latest);
+    });
+  });
+});
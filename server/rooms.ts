@@ -0,0 +1,373 @@
+/**
+ * In-memory room registry for the media sync server
+ *
+ * Members are keyed by their persistent client id rather than by socket, so a
+ * member who reconnects or reloads the page keeps their role.
+ */
+import { randomUUID } from 'crypto';
+import {
+  ChatMessage,
+  DEFAULT_ROOM_SETTINGS,
+  EMPTY_QUEUE,
+  MAX_QUEUE_LENGTH,
+  MediaIdentity,
+  MediaState,
+  MemberPresence,
+  PlaybackSnapshot,
+  QueueEntry,
+  Reaction,
+  RoomMemberInfo,
+  RoomQueue,
+  RoomRole,
+  RoomSettings,
+  UserProfile,
+  isSameMedia
+} from '../src/sync/protocol';
+import { hashPassword, hashSecret, verifyPassword, verifySecret } from './password';
+
+// Ambiguous characters (0/O, 1/I/L) are left out so codes can be read aloud
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+// Messages kept per room for late joiners
+const CHAT_HISTORY_LIMIT = 100;
+const REACTION_HISTORY_LIMIT = 2000;
+
+export interface RoomMember {
+  // Socket currently representing the member
+  socketId: string;
+  // Hash of the client secret, which a rejoin with the same client id must present
+  secretHash: string;
+  displayName: string;
+  role: RoomRole;
+  media: MediaIdentity | null;
+  presence: MemberPresence | null;
+}
+
+export interface Room {
+  code: string;
+  // Client id -> member, in join order
+  members: Map<string, RoomMember>;
+  settings: RoomSettings;
+  // Null for rooms anyone with the code may join
+  passwordHash: string | null;
+  // Client ids the host has banned
+  banned: Set<string>;
+  // Latest playback state broadcast by a member, handed to late joiners
+  playback: PlaybackSnapshot | null;
+  // Version of the latest accepted playback change, never reset so versions stay monotonic
+  playbackVersion: number;
+  // Media announced by the members who control playback
+  media: MediaIdentity | null;
+  // Members whose buffering currently holds playback, see server/groupPause.ts
+  waitingFor: Set<string>;
+  queue: RoomQueue;
+  // Most recent messages, oldest first
+  chat: ChatMessage[];
+  // Reactions on the current media, cleared when the media changes
+  reactions: Reaction[];
+  createdAt: number;
+}
+
+export type JoinResult =
+  | {
+    ok: true;
+    room: Room;
+    // Socket the member was previously connected with (another tab, or a dropped connection)
+    replacedSocketId: string | null;
+  }
+  | { ok: false; reason: 'NOT_FOUND' | 'FULL' | 'PASSWORD_REQUIRED' | 'WRONG_PASSWORD' | 'LOCKED' | 'BANNED' | 'CLIENT_ID_IN_USE' };
+
+export interface LeaveResult {
+  room: Room;
+  userId: string;
+  member: RoomMember;
+  // Set when the leaving member was host and the role was handed to someone else
+  newHostId: string | null;
+}
+
+export interface Membership {
+  room: Room;
+  userId: string;
+  member: RoomMember;
+}
+
+export class RoomManager {
+  private rooms: Map<string, Room> = new Map();
+  // Socket id -> room code and client id, a socket is in at most one room at a time
+  private memberships: Map<string, { code: string; userId: string }> = new Map();
+
+  constructor(private readonly maxUsersPerRoom: number) {}
+
+  /**
+   * Normalises user-entered room codes (trimmed, case-insensitive)
+   */
+  static normalizeCode(code: unknown): string | null {
+    if (typeof code !== 'string') return null;
+    const normalized = code.trim().toUpperCase();
+    return normalized.length > 0 ? normalized : null;
+  }
+
+  static memberList(room: Room): RoomMemberInfo[] {
+    return Array.from(room.members, ([userId, member]) => ({
+      userId,
+      displayName: member.displayName,
+      role: member.role,
+      media: member.media,
+      presence: member.presence
+    }));
+  }
+
+  create(socketId: string, profile: UserProfile, password?: string): Room {
+    let code = this.generateCode();
+    while (this.rooms.has(code)) {
+      code = this.generateCode();
+    }
+
+    const room: Room = {
+      code,
+      members: new Map([[profile.clientId, newMember(socketId, profile, 'host')]]),
+      settings: { ...DEFAULT_ROOM_SETTINGS },
+      passwordHash: password ? hashPassword(password) : null,
+      banned: new Set(),
+      playback: null,
+      playbackVersion: 0,
+      waitingFor: new Set(),
+      queue: { ...EMPTY_QUEUE },
+      media: null,
+      chat: [],
+      reactions: [],
+      createdAt: Date.now()
+    };
+    this.rooms.set(code, room);
+    this.memberships.set(socketId, { code, userId: profile.clientId });
+    return room;
+  }
+
+  join(code: string, socketId: string, profile: UserProfile, password?: string): JoinResult {
+    const room = this.rooms.get(code);
+    if (!room) {
+      return { ok: false, reason: 'NOT_FOUND' };
+    }
+    if (room.banned.has(profile.clientId)) {
+      return { ok: false, reason: 'BANNED' };
+    }
+
+    // A returning client takes over its existing membership, role included. Client ids
+    // are public, so only the secret the membership was created with proves it is the same client;
+    // it stands in for the lock and password checks the membership already passed.
+    const existing = room.members.get(profile.clientId);
+    if (existing) {
+      if (!verifySecret(profile.clientSecret, existing.secretHash)) {
+        return { ok: false, reason: 'CLIENT_ID_IN_USE' };
+      }
+      const replacedSocketId = existing.socketId !== socketId ? existing.socketId : null;
+      if (replacedSocketId) {
+        this.memberships.delete(replacedSocketId);
+      }
+      existing.socketId = socketId;
+      existing.displayName = profile.displayName;
+      this.memberships.set(socketId, { code, userId: profile.clientId });
+      return { ok: true, room, replacedSocketId };
+    }
+
+    if (room.settings.locked) {
+      return { ok: false, reason: 'LOCKED' };
+    }
+    if (room.passwordHash) {
+      if (!password) {
+        return { ok: false, reason: 'PASSWORD_REQUIRED' };
+      }
+      if (!verifyPassword(password, room.passwordHash)) {
+        return { ok: false, reason: 'WRONG_PASSWORD' };
+      }
+    }
+    if (room.members.size >= this.maxUsersPerRoom) {
+      return { ok: false, reason: 'FULL' };
+    }
+
+    room.members.set(profile.clientId, newMember(socketId, profile, 'viewer'));
+    this.memberships.set(socketId, { code, userId: profile.clientId });
+    return { ok: true, room, replacedSocketId: null };
+  }
+
+  /**
+   * Whether `profile` is a member of the room, proven by its client secret, e.g. one reconnecting
+   */
+  isReturningMember(code: string, profile: UserProfile): boolean {
+    const member = this.rooms.get(code)?.members.get(profile.clientId);
+    return !!member && verifySecret(profile.clientSecret, member.secretHash);
+  }
+
+  /**
+   * Removes a socket's member from its room. Empty rooms are deleted; if the host
+   * leaves, the longest-standing co-host (or member) takes over.
+   */
+  leave(socketId: string): LeaveResult | null {
+    const membership = this.membershipOf(socketId);
+    this.memberships.delete(socketId);
+    if (!membership) return null;
+
+    const { room, userId, member } = membership;
+    room.members.delete(userId);
+    if (room.members.size === 0) {
+      this.rooms.delete(room.code);
+      return { room, userId, member, newHostId: null };
+    }
+
+    let newHostId: string | null = null;
+    if (member.role === 'host') {
+      const ids = Array.from(room.members.keys());
+      newHostId = ids.find(id => room.members.get(id)?.role === 'cohost') ?? ids[0];
+      this.setRole(room, newHostId, 'host');
+    }
+    return { room, userId, member, newHostId };
+  }
+
+  /**
+   * Removes another member from the room at the host's request, optionally banning them.
+   * Returns the removed member so its socket can be notified.
+   */
+  removeMember(room: Room, userId: string, ban: boolean): RoomMember | null {
+    const member = room.members.get(userId);
+    if (!member || member.role === 'host') return null;
+
+    room.members.delete(userId);
+    this.memberships.delete(member.socketId);
+    if (ban) {
+      room.banned.add(userId);
+    }
+    return member;
+  }
+
+  /**
+   * Hands the host role to another member; the previous host becomes co-host
+   */
+  transferHost(room: Room, fromId: string, toId: string): boolean {
+    if (this.roleOf(room, fromId) !== 'host' || !room.members.has(toId) || fromId === toId) {
+      return false;
+    }
+    this.setRole(room, toId, 'host');
+    this.setRole(room, fromId, 'cohost');
+    return true;
+  }
+
+  roleOf(room: Room, userId: string): RoomRole | undefined {
+    return room.members.get(userId)?.role;
+  }
+
+  setRole(room: Room, userId: string, role: RoomRole) {
+    const member = room.members.get(userId);
+    if (member) {
+      member.role = role;
+    }
+  }
+
+  addChatMessage(room: Room, message: ChatMessage) {
+    room.chat.push(message);
+    if (room.chat.length > CHAT_HISTORY_LIMIT) {
+      room.chat.splice(0, room.chat.length - CHAT_HISTORY_LIMIT);
+    }
+  }
+
+  addReaction(room: Room, reaction: Reaction) {
+    room.reactions.push(reaction);
+    if (room.reactions.length > REACTION_HISTORY_LIMIT) {
+      room.reactions.splice(0, room.reactions.length - REACTION_HISTORY_LIMIT);
+    }
+  }
+
+  /**
+   * Records a new playback state under the room's next version
+   */
+  setPlayback(room: Room, mediaState: MediaState, timestamp: number): PlaybackSnapshot {
+    room.playbackVersion++;
+    room.playback = { mediaState, timestamp, version: room.playbackVersion };
+    return room.playback;
+  }
+
+  /**
+   * Appends media to the queue. Returns null when the queue is full or already has it.
+   */
+  addToQueue(room: Room, media: MediaIdentity, userId: string): QueueEntry | null {
+    const { entries } = room.queue;
+    if (entries.length >= MAX_QUEUE_LENGTH || entries.some(entry => isSameMedia(entry.media, media))) {
+      return null;
+    }
+    const entry = { id: randomUUID(), media, addedBy: userId };
+    room.queue = { ...room.queue, entries: [...entries, entry] };
+    return entry;
+  }
+
+  removeFromQueue(room: Room, entryId: string): boolean {
+    const { entries, currentId } = room.queue;
+    if (!entries.some(entry => entry.id === entryId)) return false;
+    room.queue = {
+      entries: entries.filter(entry => entry.id !== entryId),
+      // The room keeps watching a removed entry, it just isn't part of the queue any more
+      currentId: currentId === entryId ? null : currentId
+    };
+    return true;
+  }
+
+  moveInQueue(room: Room, entryId: string, index: number): boolean {
+    const entries = [...room.queue.entries];
+    const from = entries.findIndex(entry => entry.id === entryId);
+    if (from === -1) return false;
+    const [entry] = entries.splice(from, 1);
+    entries.splice(Math.min(index, entries.length), 0, entry);
+    room.queue = { ...room.queue, entries };
+    return true;
+  }
+
+  /**
+   * Marks the queue entry matching the room's media as current, or none
+   */
+  syncQueueWithMedia(room: Room): boolean {
+    const media = room.media;
+    const current = media ? room.queue.entries.find(entry => isSameMedia(entry.media, media)) : undefined;
+    const currentId = current?.id ?? null;
+    if (currentId === room.queue.currentId) return false;
+    room.queue = { ...room.queue, currentId };
+    return true;
+  }
+
+  get(code: string): Room | undefined {
+    return this.rooms.get(code);
+  }
+
+  /**
+   * The room and member a socket currently represents
+   */
+  membershipOf(socketId: string): Membership | null {
+    const entry = this.memberships.get(socketId);
+    if (!entry) return null;
+
+    const room = this.rooms.get(entry.code);
+    const member = room?.members.get(entry.userId);
+    if (!room || !member || member.socketId !== socketId) return null;
+    return { room, userId: entry.userId, member };
+  }
+
+  get size(): number {
+    return this.rooms.size;
+  }
+
+  private generateCode(): string {
+    let code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+}
+
+function newMember(socketId: string, profile: UserProfile, role: RoomRole): RoomMember {
+  return {
+    socketId,
+    secretHash: hashSecret(profile.clientSecret),
+    displayName: profile.displayName,
+    role,
+    media: null,
+    presence: null
+  };
+}
@@ -1,15 +1,65 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { createPortal } from 'react-dom';
 import Link from 'next/link';
 import videojs from 'video.js';
 import 'video.js/dist/video-js.css';
+import {
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_ROOM_PASSWORD_LENGTH,
+  PlaybackRequestedPayload,
+  REACTION_EMOJIS,
+  Reaction,
+  RoomRole,
+  RoomSettings,
+  canControlPlayback,
+  isMediaUrl,
+  isSameMedia
+} from '../../sync/protocol';
+import { RoomRequestError, isRetryableRoomError } from '../../sync/roomClient';
+import { useSyncSession } from '../../hooks/useSyncSession';
+import RoomChat from '../../components/RoomChat';
+import ReactionHeatmap from '../../components/ReactionHeatmap';
+import ReactionOverlay, { FloatingReaction } from '../../components/ReactionOverlay';
+import GroupPlaybackOverlay from '../../components/GroupPlaybackOverlay';
+import QualitySelector, { QualityLevelList } from '../../components/QualitySelector';
+import SubtitleControls from '../../components/SubtitleControls';
+import EmbeddedTracks, { AudioTrackOption } from '../../components/EmbeddedTracks';
+import PlaybackFallback, { PlaybackProblem } from '../../components/PlaybackFallback';
+import { EmbeddedTrack, RemuxPlan, embeddedTrackLabel, planRemux, readEmbeddedTracks, remuxToMp4 } from '../../demux';
+import RoomErrorNotice from '../../components/RoomErrorNotice';
+import RoomInvite from '../../components/RoomInvite';
+import RoomParticipants from '../../components/RoomParticipants';
+import RoomQueue from '../../components/RoomQueue';
+import { CodecSupport, canPlayMimeType, checkCodecSupport, unplayableTracks } from '../../utils/codecSupport';
+import { formatTime } from '../../utils/formatTime';
+import { computeMediaFingerprint, computeUrlFingerprint, identifyMediaFile } from '../../utils/mediaFingerprint';
+import { PlayerSource, mediaUrlHost, mediaUrlType, sourceName } from '../../utils/mediaSource';
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  SUBTITLE_FILE_ACCEPT,
+  SubtitleCue,
+  SubtitleStyle,
+  fillTextTrack,
+  isSubtitleFile,
+  loadSubtitleStyle,
+  readSubtitleFile,
+  saveSubtitleStyle
+} from '../../utils/subtitles';
+import { buildInviteLink, readRoomFromUrl, setRoomInUrl } from '../../utils/roomLink';
+import { loadUserProfile, saveDisplayName } from '../../utils/userProfile';
 
-interface MediaState {
-  currentTime: number;
-  isPlaying: boolean;
-}
+type VideoJsPlayer = ReturnType<typeof videojs>;
+
+// Files the player accepts, for the file pickers
+const MEDIA_FILE_ACCEPT = '.mp4,.mov,.webm,.ogg,.avi,.mkv,video/mp4,video/quicktime,video/webm,video/ogg,video/x-msvideo,video/*';
+
+// Reactions are replayed when playback passes them, but not twice within this window
+const REACTION_REPLAY_COOLDOWN_MS = 5000;
+// Position jumps (s) larger than this between timeupdates are seeks, nothing is replayed across them
+const REACTION_REPLAY_MAX_STEP = 1.5;
+const MAX_FLOATING_REACTIONS = 30;
 
 interface NotificationState {
   message: string;
@@ -19,13 +69,11 @@ interface NotificationState {
 
 export default function MediaPlayer() {
   // State variables
-  const [isConnected, setIsConnected] = useState(false);
-  const [currentRoom, setCurrentRoom] = useState<string | null>(null);
   const [roomCode, setRoomCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isVideoLoading, setIsVideoLoading] = useState(false);
   const [isFileLoading, setIsFileLoading] = useState(false);
-  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [currentSource, setCurrentSource] = useState<PlayerSource | null>(null);
   const [currentFileName, setCurrentFileName] = useState('');
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [notification, setNotification] = useState<NotificationState>({
@@ -40,233 +88,167 @@ export default function MediaPlayer() {
   const [isSyncAnimating, setIsSyncAnimating] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [syncButtonPosition, setSyncButtonPosition] = useState({ x: 20, y: 100 });
-  const [autoSyncEnabled, setAutoSyncEnabled] = useState(true);
-  const [, setLastSyncTime] = useState(0);
-  const [isReceivingSync, setIsReceivingSync] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
+  const [displayNameInput, setDisplayNameInput] = useState('');
+  const [floatingReactions, setFloatingReactions] = useState<FloatingReaction[]>([]);
+  const [mediaUrlInput, setMediaUrlInput] = useState('');
+  // Renditions of the loaded HLS or DASH stream
+  const [qualityLevels, setQualityLevels] = useState<QualityLevelList | null>(null);
+  const [subtitleTrackCount, setSubtitleTrackCount] = useState(0);
+  // Seconds added to the cues of loaded subtitle files
+  const [subtitleOffset, setSubtitleOffset] = useState(0);
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(DEFAULT_SUBTITLE_STYLE);
+  // Tracks inside the loaded file, and the subtitle tracks extracted from it
+  const [embeddedTracks, setEmbeddedTracks] = useState<EmbeddedTrack[] | null>(null);
+  const [extractedSubtitleIds, setExtractedSubtitleIds] = useState<number[]>([]);
+  // Progress of the scan for embedded subtitles, null when not scanning
+  const [demuxProgress, setDemuxProgress] = useState<number | null>(null);
+  const [audioTracks, setAudioTracks] = useState<AudioTrackOption[]>([]);
+  // Why the loaded file does not play, and the progress of its conversion to MP4
+  const [playbackProblem, setPlaybackProblem] = useState<PlaybackProblem | null>(null);
+  const [remuxProgress, setRemuxProgress] = useState<number | null>(null);
+  // Formats this browser plays, for the troubleshooting card
+  const [codecSupport, setCodecSupport] = useState<CodecSupport[]>([]);
+  // Files are being dragged over the player
+  const [isFileDragOver, setIsFileDragOver] = useState(false);
+  // Password for the next room we create, empty for an open room
+  const [createPassword, setCreatePassword] = useState('');
+  // Remote media of the room the user chose not to stream
+  const [dismissedRoomUrl, setDismissedRoomUrl] = useState<string | null>(null);
+  // Shown when a room we tried to join asks for a password
+  const [passwordPrompt, setPasswordPrompt] = useState<{ roomCode: string; error: string | null } | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  // Why the last create or join failed, shown next to the room controls
+  const [roomOpError, setRoomOpError] = useState<RoomRequestError | null>(null);
+  // Video.js elements the reaction overlay and heatmap are rendered into
+  const [playerElements, setPlayerElements] = useState<{ root: Element; seekBar: Element | null } | null>(null);
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const playerRef = useRef<any>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const mediaSyncSocketRef = useRef<Socket | null>(null);
-  const syncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const lastAutoSyncRef = useRef<number>(0);
-  const isReceivingSyncRef = useRef<boolean>(false);
-
-  // Server URL - Use deployed server for production
-  const serverUrl = process.env.NODE_ENV === 'production' 
-    ? 'https://seriousserver.onrender.com' 
-    : 'http://localhost:3002';
-
-  // Initialize Socket.IO connection with optimized settings
-  useEffect(() => {
-    const mediaSyncSocket = io(serverUrl, {
-      transports: ['websocket', 'polling'],
-      timeout: 20000,
-      forceNew: true,
-      reconnection: true,
-      reconnectionDelay: 1000,
-      reconnectionAttempts: 10
-    });
-
-    mediaSyncSocketRef.current = mediaSyncSocket;
+  const queueInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  // Text tracks loaded from subtitle files, with their cues before the timing offset
+  const subtitleTracksRef = useRef<Map<TextTrack, SubtitleCue[]>>(new Map());
+  // Mirrors subtitleOffset for subtitles added from async callbacks
+  const subtitleOffsetRef = useRef(0);
+  // Subtitle files dropped together with media, added once its player exists
+  const pendingSubtitleFilesRef = useRef<File[]>([]);
+  // Cancels the conversion of the loaded file to MP4
+  const remuxAbortRef = useRef<AbortController | null>(null);
+  // Local files by media hash, so queue entries we already picked load without asking again
+  const knownFilesRef = useRef<Map<string, File>>(new Map());
+  // Reaction id -> when it last floated over the player (ms)
+  const shownReactionsRef = useRef<Map<string, number>>(new Map());
+  // Room from a ?room= link, joined as soon as the socket is connected
+  const pendingRoomRef = useRef<string | null>(null);
+  // Repeats the last failed room operation from the error notice
+  const retryRoomOpRef = useRef<(() => void) | null>(null);
 
-    mediaSyncSocket.on('connect', () => {
-      console.log('Connected to media sync server');
-      setIsConnected(true);
-    });
-
-    mediaSyncSocket.on('disconnect', () => {
-      console.log('Disconnected from media sync server');
-      setIsConnected(false);
-    });
-
-    mediaSyncSocket.on('connect_error', (error: Error) => {
-      console.error('Connection error:', {
-        message: error.message,
-        serverUrl,
-        error: error
-      });
-      setIsConnected(false);
-      showNotification(`Connection failed: ${error.message}`, 'error');
-    });
-
-    mediaSyncSocket.on('reconnect', () => {
-      console.log('Reconnected to media sync server');
-      setIsConnected(true);
-      showNotification('Reconnected to server', 'success');
-    });
+  // Server URL - NEXT_PUBLIC_SYNC_SERVER_URL points at a self-hosted sync server (see server/)
+  const serverUrl = process.env.NEXT_PUBLIC_SYNC_SERVER_URL || (process.env.NODE_ENV === 'production'
+    ? 'https://seriousserver.onrender.com'
+    : 'http://localhost:3002');
 
-    mediaSyncSocket.on('reconnect_error', (error) => {
-      console.error('Reconnection error:', error);
-      showNotification('Reconnection failed', 'error');
-    });
-
-    mediaSyncSocket.on('roomCreated', (data) => {
-      console.log('Room created:', data);
-      setCurrentRoom(data.roomCode);
-      setIsLoading(false);
-      showNotification(`Room created: ${data.roomCode}`, 'success');
-    });
-
-    mediaSyncSocket.on('roomJoined', (data) => {
-      console.log('Room joined:', data);
-      setCurrentRoom(data.roomCode);
-      setIsLoading(false);
-      setRoomCode(''); // Clear the input field
-      showNotification(`Joined room: ${data.roomCode}`, 'success');
-    });
-
-    mediaSyncSocket.on('roomLeft', (data) => {
-      console.log('Room left:', data);
-      setCurrentRoom(null);
-      showNotification(`Left room: ${data.roomCode}`, 'success');
-    });
-
-    mediaSyncSocket.on('userJoined', (data) => {
-      console.log('User joined room:', data);
-      showNotification('A user joined the room', 'success');
-    });
-
-    mediaSyncSocket.on('userLeft', (data) => {
-      console.log('User left room:', data);
-      showNotification('A user left the room', 'error');
-    });
-
-    mediaSyncSocket.on('roomError', (error) => {
-      console.error('Room error:', error);
-      setIsLoading(false);
-      showNotification(error.message || 'Room operation failed', 'error');
-    });
+  const [session, syncState] = useSyncSession(serverUrl);
+  const {
+    isConnected,
+    clockStatus,
+    profile,
+    roomCode: currentRoom,
+    role: myRole,
+    settings: roomSettings,
+    members,
+    roomStateMedia,
+    localMedia,
+    queue,
+    playbackRequests,
+    chatMessages,
+    typingMembers,
+    reactions,
+    driftStatus,
+    waitingFor,
+    countdownTo,
+    isReceivingSync,
+    autoSyncEnabled
+  } = syncState;
 
-    mediaSyncSocket.on('userJoined', (data) => {
-      console.log('User joined room:', data);
-      showNotification(`User joined the room (${data.userCount} users total)`, 'success');
-    });
-
-    mediaSyncSocket.on('userLeft', (data) => {
-      console.log('User left room:', data);
-      showNotification(`User left the room (${data.userCount} users remaining)`, 'success');
-    });
-
-    mediaSyncSocket.on('syncMedia', (data: { mediaState: MediaState, senderId?: string, syncType?: string }) => {
-      console.log('Received sync data:', data);
-      
-      // Early validation - check if we have the necessary components
-      if (!data.mediaState) {
-        console.warn('Received sync data without mediaState');
-        return;
-      }
-      
-      if (!currentRoom) {
-        console.warn('Received sync data but not in a room - ignoring');
-        return;
-      }
-      
-      if (!playerRef.current) {
-        console.warn('Received sync data but no Video.js player available');
-        return;
-      }
-      
-      try {
-        // Validate received data structure
-        if (typeof data.mediaState.currentTime !== 'number' || typeof data.mediaState.isPlaying !== 'boolean') {
-          console.error('Invalid sync data received:', data.mediaState);
-          return;
-        }
-        
-        // Prevent sync loops by ignoring our own sync events
-        if (data.senderId === mediaSyncSocket.id) {
-          console.log('Ignoring own sync event');
-          return;
-        }
-        
-        // Set receiving sync flag to prevent auto-sync during this operation
-        setIsReceivingSync(true);
-        isReceivingSyncRef.current = true;
-        
-        const player = playerRef.current;
-        const { currentTime, isPlaying } = data.mediaState;
-        const syncType = data.syncType || 'UNKNOWN';
-        
-        try {
-          // More aggressive sync for manual syncs, less for auto syncs
-          const threshold = syncType === 'MANUAL' ? 0.3 : syncType === 'ROOM_STATE' ? 1.0 : 0.5;
-          const timeDiff = Math.abs(player.currentTime() - currentTime);
-          
-          if (timeDiff > threshold) {
-            player.currentTime(currentTime);
-            console.log(`🔄 [${syncType}] Synced time: ${currentTime.toFixed(2)}s (diff: ${timeDiff.toFixed(2)}s)`);
-          }
-          
-          // Handle play/pause state with better error handling
-          if (isPlaying && player.paused()) {
-            player.play().then(() => {
-               console.log(`▶️ [${syncType}] Synced to play`);
-             }).catch((error: unknown) => {
-               console.error('Failed to play video:', error);
-               showNotification('Failed to play video - user interaction may be required', 'error');
-             });
-          } else if (!isPlaying && !player.paused()) {
-            player.pause();
-            console.log(`⏸️ [${syncType}] Synced to pause`);
-          }
-          
-          // Update last sync time for UI feedback
-          setLastSyncTime(Date.now());
-          
-          // Show success notification only for manual syncs to avoid spam
-          if (syncType === 'MANUAL' || syncType === 'ROOM_STATE') {
-            showNotification('Media synced', 'success');
-          }
-          
-        } catch (error) {
-          console.error('Error during sync operation:', error);
-        } finally {
-          // Always clear receiving sync flag
-          setTimeout(() => {
-            setIsReceivingSync(false);
-            isReceivingSyncRef.current = false;
-          }, 100);
-        }
-        
-      } catch (error) {
-        console.error('Error processing sync data:', error);
-        setIsReceivingSync(false);
-        isReceivingSyncRef.current = false;
-      }
-    });
-
-    mediaSyncSocket.on('error', (error) => {
-      showNotification(error.message, 'error');
-    });
+  const canControl = session.canControl;
+  const currentEntry = queue.entries.find(entry => entry.id === queue.currentId) ?? null;
+  // The media the room is watching: the current queue entry, else the host's, else that of another member who controls playback
+  const announcer = currentEntry ? null : (
+    members.find(member => member.role === 'host' && member.media) ??
+    members.find(member => member.media && canControlPlayback(member.role, roomSettings))
+  );
+  const roomMedia = currentEntry?.media ?? announcer?.media ?? roomStateMedia;
+  // Who switched the room to it, if still here
+  const roomMediaFrom = currentEntry ? members.find(member => member.userId === currentEntry.addedBy) : announcer;
+  // Remote media is only streamed unasked from the host or a co-host, and never in place of a local file
+  const isRoomUrlStreamed = !!roomMedia?.url && currentSource?.kind === 'url' && currentSource.url === roomMedia.url;
+  const mayStreamRoomUrl = !!roomMediaFrom && roomMediaFrom.role !== 'viewer' && currentSource?.kind !== 'file';
+  const roomUrlOffer = roomMedia?.url && !isRoomUrlStreamed && !mayStreamRoomUrl && roomMedia.url !== dismissedRoomUrl
+    ? roomMedia.url
+    : null;
+  const hasMediaMismatch = !!(currentRoom && localMedia && roomMedia && !isSameMedia(localMedia, roomMedia));
+  // The room moved on to a queue entry we have not loaded
+  const needsQueueFile = !!(currentRoom && currentEntry && !(localMedia && isSameMedia(localMedia, currentEntry.media)));
 
+  useEffect(() => {
+    const unsubscribers = [
+      session.on('notice', showNotification),
+      session.on('reaction', showFloatingReaction),
+      session.on('connected', joinPendingRoom)
+    ];
     return () => {
-      mediaSyncSocket.disconnect();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
       // Cleanup notification timeout
       if (notificationTimeoutRef.current) {
         clearTimeout(notificationTimeoutRef.current);
       }
     };
-  }, [currentRoom, serverUrl]);
+  }, [session]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Reflect the room in the address bar, so a reload rejoins it
+  useEffect(() => {
+    if (!currentRoom) return;
+    setRoomInUrl(currentRoom);
+    return () => setRoomInUrl(null);
+  }, [currentRoom]);
 
   // Track client-side mounting to prevent hydration issues
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
+  useEffect(() => {
+    const loaded = loadUserProfile();
+    session.setProfile(loaded);
+    setDisplayNameInput(loaded.displayName);
+  }, [session]);
+
+  useEffect(() => {
+    const linkedRoom = readRoomFromUrl();
+    if (!linkedRoom) return;
+    pendingRoomRef.current = linkedRoom;
+    setRoomCode(linkedRoom);
+    joinPendingRoom();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Initialize Video.js player
   useEffect(() => {
     // Only run on client-side after component is mounted
     if (!isMounted || typeof window === 'undefined') return;
     
-    // Initialize Video.js when we have a file and video element
-    if (videoRef.current && currentFile && !playerRef.current) {
+    // Initialize Video.js when we have a source and video element
+    if (videoRef.current && currentSource && !playerRef.current) {
+      const source = currentSource;
+      const sourceUrl = source.kind === 'file' ? URL.createObjectURL(source.remuxed ?? source.file) : source.url;
+      const subtitleTracks = subtitleTracksRef.current;
+      const demuxAbort = new AbortController();
       try {
         console.log('Initializing Video.js player');
-        const fileUrl = URL.createObjectURL(currentFile);
         
         // Initialize Video.js
         const player = videojs(videoRef.current, {
@@ -274,27 +256,94 @@ export default function MediaPlayer() {
           responsive: true,
           fluid: true,
           playbackRates: [0.5, 1, 1.25, 1.5, 2],
+          // Render cues ourselves, so the subtitle style applies in every browser
+          html5: { nativeTextTracks: false }
         });
         
         playerRef.current = player;
+        session.setLocalMedia(null);
+        session.attachPlayer(player);
+        
+        // Once the media is playable, fingerprint it, tell the room what we loaded and catch up with it
+        player.on('loadedmetadata', () => {
+          // Live streams have an infinite duration
+          const reported = player.duration() ?? 0;
+          const duration = Number.isFinite(reported) ? reported : 0;
+          const fingerprint = source.kind === 'file'
+            ? computeMediaFingerprint(source.file, duration)
+            : computeUrlFingerprint(source.url, duration);
+          fingerprint.then((media) => {
+            if (playerRef.current !== player) return;
+            if (source.kind === 'file') {
+              knownFilesRef.current.set(media.hash, source.file);
+            }
+            session.setLocalMedia(media);
+          }).catch((error: unknown) => {
+            console.error('Failed to fingerprint media:', error);
+          });
+        });
+
+        // Decoding failed, or the browser cannot open the file at all
+        player.on('error', () => {
+          const code = player.error()?.code;
+          if (code === MediaError.MEDIA_ERR_DECODE) {
+            reportPlaybackProblem(player, source, 'This file could not be decoded');
+          } else if (code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED) {
+            reportPlaybackProblem(player, source, 'This browser cannot open this file');
+          }
+        });
         
         // Set up Video.js event listeners
         player.ready(() => {
           console.log('Video.js player is ready');
+          setPlayerElements({
+            root: player.el(),
+            seekBar: player.getChild('ControlBar')?.getChild('ProgressControl')?.getChild('SeekBar')?.el() ?? null
+          });
+          // Registered by the quality levels plugin bundled with Video.js, which its typings do not cover
+          setQualityLevels((player as unknown as { qualityLevels(): QualityLevelList }).qualityLevels());
           
           // Set the source after player is ready
           player.src({
-            src: fileUrl,
-            type: currentFile.type
+            src: sourceUrl,
+            type: source.kind === 'file' ? (source.remuxed ?? source.file).type : mediaUrlType(source.url)
           });
+          pendingSubtitleFilesRef.current.splice(0).forEach(addSubtitleFile);
+
+          if (source.kind === 'file') {
+            scanEmbeddedTracks(player, source.file, demuxAbort.signal).then((tracks) => {
+              // Codecs the browser lacks may fail late, or play sound over a black picture
+              const unplayable = tracks && !source.remuxed ? unplayableTracks(tracks) : [];
+              if (unplayable.length > 0) {
+                const streams = unplayable.map(track => `${track.kind} (${track.codec})`).join(' and ');
+                reportPlaybackProblem(player, source, `This browser cannot decode its ${streams}`);
+              }
+            });
+          }
         });
       } catch (error) {
         console.error('Error initializing Video.js:', error);
         showNotification('Error initializing video player', 'error');
       }
       
-      // Clean up on unmount or when file changes
+      // Clean up on unmount or when the source changes
       return () => {
+        setPlayerElements(null);
+        setQualityLevels(null);
+        demuxAbort.abort();
+        remuxAbortRef.current?.abort();
+        setPlaybackProblem(null);
+        setRemuxProgress(null);
+        subtitleTracks.clear();
+        setSubtitleTrackCount(0);
+        setSubtitleOffset(0);
+        setEmbeddedTracks(null);
+        setExtractedSubtitleIds([]);
+        setDemuxProgress(null);
+        if (source.kind === 'file') {
+          URL.revokeObjectURL(sourceUrl);
+        }
+        session.detachPlayer();
         if (playerRef.current) {
           console.log('Disposing Video.js player');
           playerRef.current.dispose();
@@ -302,78 +351,133 @@ export default function MediaPlayer() {
         }
       };
     }
-  }, [currentFile, isMounted]);
+  }, [currentSource, isMounted]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Cleanup Video.js player on unmount
   useEffect(() => {
     return () => {
+      session.detachPlayer();
       if (playerRef.current) {
         playerRef.current.dispose();
         playerRef.current = null;
       }
     };
+  }, [session]);
+
+  useEffect(() => {
+    setSubtitleStyle(loadSubtitleStyle());
   }, []);
 
-  // Auto-sync event listeners for Video.js events
+  // Tells the room which subtitles we picked, from our files or the player's menu
   useEffect(() => {
-    if (!isMounted) return;
-    
     const player = playerRef.current;
-    if (!player || !currentRoom) return;
+    if (!playerElements || !player) return;
 
-    const handlePlay = () => {
-      console.log('Video.js play event detected');
-      if (syncTimeoutRef.current) {
-        clearTimeout(syncTimeoutRef.current);
+    const tracks = player.textTracks();
+    const handleChange = () => {
+      let language: string | null = null;
+      for (let i = 0; i < tracks.length; i++) {
+        const track: TextTrack = tracks[i];
+        if (track.mode === 'showing' && (track.kind === 'subtitles' || track.kind === 'captions')) {
+          language = (track.language || track.label || '').slice(0, 64) || null;
+        }
       }
-      syncTimeoutRef.current = setTimeout(autoSyncMediaState, 100);
+      session.setSubtitleLanguage(language);
     };
 
-    const handlePause = () => {
-      console.log('Video.js pause event detected');
-      if (syncTimeoutRef.current) {
-        clearTimeout(syncTimeoutRef.current);
-      }
-      syncTimeoutRef.current = setTimeout(autoSyncMediaState, 100);
+    handleChange();
+    tracks.on('change', handleChange);
+    return () => {
+      tracks.off('change', handleChange);
+      session.setSubtitleLanguage(null);
     };
+  }, [session, playerElements]);
 
-    const handleSeeked = () => {
-      console.log('Video.js seek event detected');
-      if (syncTimeoutRef.current) {
-        clearTimeout(syncTimeoutRef.current);
+  useEffect(() => {
+    subtitleOffsetRef.current = subtitleOffset;
+    subtitleTracksRef.current.forEach((cues, track) => fillTextTrack(track, cues, subtitleOffset));
+  }, [subtitleOffset]);
+
+  // Lists the player's audio tracks: alternate audio of HLS/DASH streams, or of files where the browser exposes them
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!playerElements || !player) return;
+
+    const tracks = player.audioTracks();
+    const handleChange = () => {
+      const options: AudioTrackOption[] = [];
+      for (let i = 0; i < tracks.length; i++) {
+        const { id, label, language, enabled } = tracks[i];
+        options.push({ id, label, language, enabled });
       }
-      syncTimeoutRef.current = setTimeout(autoSyncMediaState, 200);
+      setAudioTracks(options);
+    };
+
+    handleChange();
+    tracks.on(['addtrack', 'removetrack', 'change'], handleChange);
+    return () => {
+      tracks.off(['addtrack', 'removetrack', 'change'], handleChange);
+      setAudioTracks([]);
     };
+  }, [playerElements]);
+
+  useEffect(() => {
+    const settings = playerRef.current?.textTrackSettings;
+    if (!playerElements || !settings) return;
+    settings.setValues(subtitleStyle);
+    settings.updateDisplay();
+  }, [subtitleStyle, playerElements]);
 
+  // Replays the room's reactions as playback passes the moment they were made
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!isMounted || !player || !currentRoom) return;
+
+    let lastTime: number | null = null;
     const handleTimeUpdate = () => {
-      // Periodic sync every 10 seconds during playback
-      if (!player.paused() && autoSyncEnabled) {
-        const now = Date.now();
-        if (now - lastAutoSyncRef.current > 10000) {
-          autoSyncMediaState();
+      const time = player.currentTime();
+      const previous = lastTime;
+      lastTime = time;
+      if (previous === null || player.seeking() || time <= previous || time - previous > REACTION_REPLAY_MAX_STEP) {
+        return;
+      }
+
+      const now = Date.now();
+      for (const reaction of session.getState().reactions) {
+        const shownAt = shownReactionsRef.current.get(reaction.id) ?? 0;
+        if (reaction.mediaTime > previous && reaction.mediaTime <= time && now - shownAt > REACTION_REPLAY_COOLDOWN_MS) {
+          showFloatingReaction(reaction);
         }
       }
     };
 
-    if (autoSyncEnabled) {
-      player.on('play', handlePlay);
-      player.on('pause', handlePause);
-      player.on('seeked', handleSeeked);
-      player.on('timeupdate', handleTimeUpdate);
-    }
-
+    player.on('timeupdate', handleTimeUpdate);
     return () => {
-      if (player) {
-        player.off('play', handlePlay);
-        player.off('pause', handlePause);
-        player.off('seeked', handleSeeked);
-        player.off('timeupdate', handleTimeUpdate);
-      }
-      if (syncTimeoutRef.current) {
-        clearTimeout(syncTimeoutRef.current);
-      }
+      player.off('timeupdate', handleTimeUpdate);
     };
-  }, [currentRoom, autoSyncEnabled, currentFile, isMounted]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [session, currentRoom, currentSource, isMounted]);
+
+  // Loads the room's new queue entry right away if we already picked that file
+  useEffect(() => {
+    if (!needsQueueFile || !currentEntry) return;
+    const file = knownFilesRef.current.get(currentEntry.media.hash);
+    if (file && !(currentSource?.kind === 'file' && currentSource.file === file)) {
+      loadFile(file);
+    }
+  }, [currentEntry?.id, needsQueueFile]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Streams the room's remote media as soon as the room switches to it, nobody needs a copy; otherwise it is offered below
+  useEffect(() => {
+    const url = roomMedia?.url;
+    if (!url || isRoomUrlStreamed || !mayStreamRoomUrl) return;
+    loadUrl(url);
+  }, [roomMedia?.url]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (hasMediaMismatch && roomMedia) {
+      showNotification(`Your file doesn't match the room's "${roomMedia.name}"`, 'error');
+    }
+  }, [hasMediaMismatch]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Cleanup effect for component unmount
   useEffect(() => {
@@ -383,11 +487,6 @@ export default function MediaPlayer() {
         audioContext.close().catch(console.error);
       }
       
-      // Cleanup sync timeout
-      if (syncTimeoutRef.current) {
-        clearTimeout(syncTimeoutRef.current);
-      }
-      
       // Cleanup notification timeout
       if (notificationTimeoutRef.current) {
         clearTimeout(notificationTimeoutRef.current);
@@ -403,31 +502,13 @@ export default function MediaPlayer() {
       document.documentElement.classList.add('dark');
     }
     
-    // Check codec support on component mount
-    checkCodecSupport();
+    setCodecSupport(checkCodecSupport());
   }, []);
 
   // Utility functions with cleanup
   const notificationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastVolumeWarningRef = useRef<number>(0);
   
-  // Codec detection utility
-  const checkCodecSupport = () => {
-    const video = document.createElement('video');
-    const codecs = {
-      'MP4 (H.264)': video.canPlayType('video/mp4; codecs="avc1.42E01E"'),
-      'MP4 (H.265/HEVC)': video.canPlayType('video/mp4; codecs="hev1.1.6.L93.B0"'),
-      'WebM (VP8)': video.canPlayType('video/webm; codecs="vp8"'),
-      'WebM (VP9)': video.canPlayType('video/webm; codecs="vp9"'),
-      'WebM (AV1)': video.canPlayType('video/webm; codecs="av01.0.05M.08"'),
-      'OGG (Theora)': video.canPlayType('video/ogg; codecs="theora"'),
-      'QuickTime': video.canPlayType('video/quicktime')
-    };
-    
-    console.log('Codec Support:', codecs);
-    return codecs;
-  };
-  
   const showNotification = (message: string, type: 'success' | 'error') => {
     // Clear existing timeout to prevent memory leaks
     if (notificationTimeoutRef.current) {
@@ -465,38 +546,248 @@ export default function MediaPlayer() {
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Check file format compatibility
-      const supportedFormats = ['video/mp4', 'video/webm', 'video/ogg', 'video/quicktime', 'video/x-msvideo'];
-      const fileExtension = file.name.toLowerCase().split('.').pop();
-      const supportedExtensions = ['mp4', 'webm', 'ogg', 'mov', 'avi', 'mkv'];
-      
-      if (!supportedFormats.includes(file.type) && !supportedExtensions.includes(fileExtension || '')) {
-        showNotification(`Unsupported file format: ${file.type || fileExtension}. Please use MP4, WebM, or MOV files.`, 'error');
-        return;
+      loadFile(file);
+    }
+  };
+
+  const loadFile = (file: File) => {
+    // Check file format compatibility
+    const supportedFormats = ['video/mp4', 'video/webm', 'video/ogg', 'video/quicktime', 'video/x-msvideo'];
+    const fileExtension = file.name.toLowerCase().split('.').pop();
+    const supportedExtensions = ['mp4', 'webm', 'ogg', 'mov', 'avi', 'mkv'];
+    
+    if (!supportedFormats.includes(file.type) && !supportedExtensions.includes(fileExtension || '')) {
+      showNotification(`Unsupported file format: ${file.type || fileExtension}. Please use MP4, WebM, or MOV files.`, 'error');
+      return;
+    }
+    
+    console.log('Loading file:', {
+      name: file.name,
+      type: file.type,
+      size: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
+      extension: fileExtension
+    });
+    loadSource({ kind: 'file', file });
+  };
+
+  const loadUrl = (url: string) => {
+    console.log('Loading URL:', url, mediaUrlType(url) ?? 'type guessed by Video.js');
+    loadSource({ kind: 'url', url });
+  };
+
+  const loadSource = (source: PlayerSource) => {
+    const name = sourceName(source);
+    setIsFileLoading(true);
+    setIsVideoLoading(true);
+    setCurrentSource(source);
+    setCurrentFileName(name);
+    
+    // Video.js will handle the loading, so we just need to clear loading states
+    // The actual loading will happen in the Video.js useEffect
+    setTimeout(() => {
+      setIsFileLoading(false);
+      setIsVideoLoading(false);
+      showNotification(`Loaded: ${name}`, 'success');
+      initializeAudioEnhancement();
+    }, 100);
+  };
+
+  const handleMediaUrlSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const url = mediaUrlInput.trim();
+    if (!isMediaUrl(url)) {
+      showNotification('Enter an http:// or https:// address', 'error');
+      return;
+    }
+    setMediaUrlInput('');
+    loadUrl(url);
+  };
+
+  // Adds a subtitle text track to the player, shifted by the current timing offset
+  const attachSubtitles = (player: VideoJsPlayer, label: string, language: string, cues: SubtitleCue[]): TextTrack => {
+    const track = player.addTextTrack('subtitles', label, language);
+    if (!track) {
+      throw new Error('The player has no media to add subtitles to');
+    }
+    fillTextTrack(track, cues, subtitleOffsetRef.current);
+    subtitleTracksRef.current.set(track, cues);
+    setSubtitleTrackCount(subtitleTracksRef.current.size);
+    return track;
+  };
+
+  // Lists the audio and subtitle tracks inside a local file and adds its text subtitles to the player
+  const scanEmbeddedTracks = async (player: VideoJsPlayer, file: File, signal: AbortSignal): Promise<EmbeddedTrack[] | null> => {
+    setDemuxProgress(0);
+    try {
+      const result = await readEmbeddedTracks(file, { signal, onProgress: setDemuxProgress });
+      if (!result || signal.aborted) return null;
+
+      for (const { track, cues } of result.subtitles) {
+        if (cues.length > 0) {
+          attachSubtitles(player, embeddedTrackLabel(track), track.language === 'und' ? '' : track.language, cues);
+        }
+      }
+      setEmbeddedTracks(result.tracks);
+      setExtractedSubtitleIds(result.subtitles.filter(entry => entry.cues.length > 0).map(entry => entry.track.id));
+      if (result.subtitles.length > 0) {
+        showNotification(`Found ${result.subtitles.length} embedded subtitle track(s), pick one from the CC menu`, 'success');
+      }
+      return result.tracks;
+    } catch (error) {
+      console.error('Failed to read embedded tracks:', error);
+      return null;
+    } finally {
+      if (!signal.aborted) {
+        setDemuxProgress(null);
+      }
+    }
+  };
+
+  // Explains why a local file does not play, and offers to convert it to MP4 when its codecs allow
+  const reportPlaybackProblem = async (player: VideoJsPlayer, source: PlayerSource, reason: string) => {
+    if (source.kind !== 'file') return;
+    let remux: RemuxPlan | null = null;
+    let detail: string | null = source.remuxed ? 'Converting it to MP4 did not help' : null;
+    if (!source.remuxed) {
+      try {
+        const check = await planRemux(source.file);
+        if (check && 'plan' in check) {
+          if (canPlayMimeType(check.plan.mimeType)) {
+            remux = check.plan;
+          } else {
+            detail = 'This browser cannot decode its streams, even as MP4';
+          }
+        } else if (check) {
+          detail = check.reason;
+        }
+      } catch (error) {
+        console.error('Failed to read the file for conversion:', error);
+      }
+    }
+    if (playerRef.current !== player) return;
+    // The first explanation wins, the codec check and the player's error often both fire
+    setPlaybackProblem(previous => previous ?? { reason, remux, detail });
+  };
+
+  const startRemux = async () => {
+    const source = currentSource;
+    const plan = playbackProblem?.remux;
+    if (source?.kind !== 'file' || !plan) return;
+
+    const abort = new AbortController();
+    remuxAbortRef.current = abort;
+    setRemuxProgress(0);
+    try {
+      const remuxed = await remuxToMp4(source.file, plan, { signal: abort.signal, onProgress: setRemuxProgress });
+      if (remuxed) {
+        loadSource({ ...source, remuxed });
+      }
+    } catch (error) {
+      console.error('Failed to convert to MP4:', error);
+      showNotification(`Cannot convert ${source.file.name} to MP4`, 'error');
+    } finally {
+      setRemuxProgress(null);
+    }
+  };
+
+  const cancelRemux = () => {
+    remuxAbortRef.current?.abort();
+    setRemuxProgress(null);
+  };
+
+  const selectAudioTrack = (id: string) => {
+    const tracks = playerRef.current?.audioTracks();
+    if (!tracks) return;
+    // Enabling one audio track disables the others
+    for (let i = 0; i < tracks.length; i++) {
+      if (tracks[i].id === id) {
+        tracks[i].enabled = true;
+      }
+    }
+  };
+
+  const addSubtitleFile = async (file: File) => {
+    const player = playerRef.current;
+    if (!player) {
+      showNotification('Load media before its subtitles', 'error');
+      return;
+    }
+    try {
+      const subtitles = await readSubtitleFile(file);
+      if (playerRef.current !== player) return;
+
+      const track = attachSubtitles(player, subtitles.label, subtitles.language, subtitles.cues);
+
+      // Show the new track instead of any other
+      const tracks = player.textTracks();
+      for (let i = 0; i < tracks.length; i++) {
+        if (tracks[i] !== track && (tracks[i].kind === 'subtitles' || tracks[i].kind === 'captions')) {
+          tracks[i].mode = 'disabled';
+        }
+      }
+      track.mode = 'showing';
+      showNotification(`Subtitles loaded: ${subtitles.label}`, 'success');
+    } catch (error) {
+      console.error('Failed to load subtitles:', error);
+      showNotification(`Cannot read subtitles from ${file.name}`, 'error');
+    }
+  };
+
+  const handleSubtitleFilesSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(event.target.files ?? []).forEach(addSubtitleFile);
+    event.target.value = '';
+  };
+
+  const changeSubtitleStyle = (style: SubtitleStyle) => {
+    setSubtitleStyle(style);
+    saveSubtitleStyle(style);
+  };
+
+  // Media and subtitle files can be dropped onto the player
+  const handleFileDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsFileDragOver(true);
+  };
+
+  const handleFileDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsFileDragOver(false);
+    const files = Array.from(event.dataTransfer.files);
+    const subtitleFiles = files.filter(isSubtitleFile);
+    const mediaFile = files.find(file => !isSubtitleFile(file));
+    if (mediaFile) {
+      // The new media gets a new player, the subtitles go to that one
+      pendingSubtitleFilesRef.current = subtitleFiles;
+      loadFile(mediaFile);
+    } else {
+      subtitleFiles.forEach(addSubtitleFile);
+    }
+  };
+
+  // Fingerprints the picked files and appends them to the room's queue
+  const handleQueueFilesSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same files again later
+    event.target.value = '';
+    for (const file of files) {
+      try {
+        const media = await identifyMediaFile(file);
+        knownFilesRef.current.set(media.hash, file);
+        if (!session.addToQueue(media)) {
+          showNotification('Offline, try again once reconnected', 'error');
+          return;
+        }
+      } catch (error) {
+        console.error('Failed to queue file:', error);
+        showNotification(`Cannot queue ${file.name}: unreadable media file`, 'error');
       }
-      
-      setIsFileLoading(true);
-      setIsVideoLoading(true);
-      setCurrentFile(file);
-      setCurrentFileName(file.name);
-      
-      console.log('Loading file:', {
-        name: file.name,
-        type: file.type,
-        size: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
-        extension: fileExtension
-      });
-      
-      // Video.js will handle the file loading, so we just need to clear loading states
-      // The actual loading will happen in the Video.js useEffect
-      setTimeout(() => {
-        setIsFileLoading(false);
-        setIsVideoLoading(false);
-        showNotification(`Loaded: ${file.name}`, 'success');
-        initializeAudioEnhancement();
-      }, 100);
-      
-      console.log('File selected for Video.js:', file.name);
+    }
+  };
+
+  const addCurrentToQueue = () => {
+    if (localMedia) {
+      notifyIfOffline(session.addToQueue(localMedia));
     }
   };
 
@@ -525,73 +816,89 @@ export default function MediaPlayer() {
     }
   };
 
-  const autoSyncMediaState = () => {
-    if (!autoSyncEnabled || !mediaSyncSocketRef.current || !playerRef.current || !currentRoom || isReceivingSyncRef.current) {
+  const syncMediaState = () => {
+    if (!playerRef.current || !currentRoom) {
+      showNotification('Cannot sync: No room joined or video loaded', 'error');
       return;
     }
-    
-    const now = Date.now();
-    // Debounce auto-sync to prevent spam (minimum 500ms between auto-syncs)
-    if (now - lastAutoSyncRef.current < 500) {
+    if (!canControl) {
+      showNotification('Only the host can control playback in this room', 'error');
       return;
     }
-    
-    lastAutoSyncRef.current = now;
-    
-    const player = playerRef.current;
-    const mediaState: MediaState = {
-      currentTime: player.currentTime(),
-      isPlaying: !player.paused()
-    };
-    
-    console.log('Auto-syncing media state:', { roomId: currentRoom, mediaState });
-    mediaSyncSocketRef.current.emit('syncMedia', { 
-      roomId: currentRoom, 
-      mediaState,
-      senderId: mediaSyncSocketRef.current.id,
-      isAutoSync: true,
-      isManualSync: false
-    });
+    setIsSyncAnimating(true);
+    const sent = session.syncNow();
+    showNotification(sent ? 'Media synced successfully!' : 'Offline, the room will be synced once reconnected', sent ? 'success' : 'error');
+    setTimeout(() => setIsSyncAnimating(false), 1000);
   };
 
-  const syncMediaState = () => {
-    if (!mediaSyncSocketRef.current || !playerRef.current || !currentRoom) {
-      showNotification('Cannot sync: No room joined or video loaded', 'error');
-      return;
+  const startTogether = () => {
+    if (!session.startTogether()) {
+      showNotification('Cannot start together right now, check your connection', 'error');
+    }
+  };
+
+  // Clears the room controls after a successful create or join
+  const enteredRoom = (roomCode: string, created: boolean) => {
+    setRoomOpError(null);
+    setPasswordPrompt(null);
+    setPasswordInput('');
+    if (created) {
+      setCreatePassword('');
+      showNotification(`Room created: ${roomCode}`, 'success');
+    } else {
+      setRoomCode(''); // Clear the input field
+      showNotification(`Joined room: ${roomCode}`, 'success');
     }
-    setIsSyncAnimating(true);
-    const player = playerRef.current;
-    const mediaState: MediaState = {
-      currentTime: player.currentTime(),
-      isPlaying: !player.paused()
-    };
-    console.log('Manual syncing media state:', { roomId: currentRoom, mediaState });
-    mediaSyncSocketRef.current.emit('syncMedia', { 
-      roomId: currentRoom, 
-      mediaState,
-      senderId: mediaSyncSocketRef.current.id,
-      isManualSync: true,
-      isAutoSync: false
-    });
-    showNotification('Media synced successfully!', 'success');
-    setTimeout(() => setIsSyncAnimating(false), 1000);
   };
 
-  const createRoom = () => {
-    if (!mediaSyncSocketRef.current) {
-      showNotification('Not connected to server', 'error');
+  // Password problems reopen the prompt, anything else is shown next to the room controls
+  const handleJoinError = (error: RoomRequestError, roomToJoin: string, fromLink: boolean) => {
+    console.error('Join room failed:', error);
+    if (error.code === 'PASSWORD_REQUIRED' || error.code === 'WRONG_PASSWORD') {
+      setPasswordPrompt({ roomCode: roomToJoin, error: error.code === 'WRONG_PASSWORD' ? error.message : null });
+      setPasswordInput('');
       return;
     }
+    if (fromLink && !isRetryableRoomError(error)) {
+      // The linked room is gone, full or closed to us, don't retry it on reload
+      setRoomInUrl(null);
+    }
+    showRoomOpError(error);
+  };
+
+  const showRoomOpError = (error: RoomRequestError) => {
+    if (error.code === 'OFFLINE') {
+      showNotification(error.message, 'error');
+    } else {
+      setRoomOpError(error);
+    }
+  };
+
+  const createRoom = async () => {
     setIsLoading(true);
-    mediaSyncSocketRef.current.emit('createRoom');
-    
-    // Fallback timeout
-    setTimeout(() => {
-      if (isLoading) {
-        setIsLoading(false);
-        showNotification('Room creation timed out', 'error');
-      }
-    }, 10000);
+    setRoomOpError(null);
+    retryRoomOpRef.current = createRoom;
+    const result = await session.createRoom(createPassword || undefined);
+    setIsLoading(false);
+    if (result.ok) {
+      enteredRoom(result.data.roomCode, true);
+    } else {
+      console.error('Create room failed:', result.error);
+      showRoomOpError(result.error);
+    }
+  };
+
+  const joinRoom = async (roomToJoin: string, password?: string, fromLink = false) => {
+    setIsLoading(true);
+    setRoomOpError(null);
+    retryRoomOpRef.current = () => joinRoom(roomToJoin, password, fromLink);
+    const result = await session.joinRoom(roomToJoin, password);
+    setIsLoading(false);
+    if (result.ok) {
+      enteredRoom(result.data.roomCode, false);
+    } else {
+      handleJoinError(result.error, roomToJoin, fromLink);
+    }
   };
 
   const handleJoinRoom = () => {
@@ -599,28 +906,133 @@ export default function MediaPlayer() {
       showNotification('Please enter a room code', 'error');
       return;
     }
-    if (!mediaSyncSocketRef.current) {
-      showNotification('Not connected to server', 'error');
+    joinRoom(roomCode.trim().toUpperCase());
+  };
+
+  // Joins the room from a ?room= link once both the socket and the profile are ready
+  const joinPendingRoom = () => {
+    const roomToJoin = pendingRoomRef.current;
+    const { isConnected, profile } = session.getState();
+    if (!roomToJoin || !isConnected || !profile) return;
+
+    pendingRoomRef.current = null;
+    joinRoom(roomToJoin, undefined, true);
+  };
+
+  const submitRoomPassword = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passwordPrompt || !passwordInput) return;
+    joinRoom(passwordPrompt.roomCode, passwordInput);
+  };
+
+  const retryRoomOp = () => {
+    retryRoomOpRef.current?.();
+  };
+
+  const cancelPasswordPrompt = () => {
+    setPasswordPrompt(null);
+    setPasswordInput('');
+    setRoomInUrl(null);
+  };
+
+  const leaveRoom = async () => {
+    if (!currentRoom) {
+      showNotification('Not in a room', 'error');
       return;
     }
     setIsLoading(true);
-    mediaSyncSocketRef.current.emit('joinRoom', { roomCode: roomCode.trim() });
-    
-    // Fallback timeout
-    setTimeout(() => {
-      if (isLoading) {
-        setIsLoading(false);
-        showNotification('Join room timed out', 'error');
-      }
-    }, 10000);
+    const result = await session.leaveRoom();
+    setIsLoading(false);
+    if (result.ok) {
+      showNotification(`Left room: ${result.data.roomCode}`, 'success');
+    } else if (result.error.code !== 'NOT_IN_ROOM') {
+      showNotification(`Could not leave the room: ${result.error.message}`, 'error');
+    }
+  };
+
+  // Saves the edited display name and tells the room, reverting the input if it is empty
+  const commitDisplayName = () => {
+    if (!profile) return;
+
+    const displayName = saveDisplayName(displayNameInput);
+    if (!displayName) {
+      setDisplayNameInput(profile.displayName);
+      return;
+    }
+    setDisplayNameInput(displayName);
+    session.updateDisplayName(displayName);
+  };
+
+  const sendChatMessage = (text: string) => {
+    if (!session.sendChatMessage(text)) {
+      showNotification('Offline, the message was not sent', 'error');
+    }
   };
 
-  const leaveRoom = () => {
-    if (mediaSyncSocketRef.current && currentRoom) {
-      mediaSyncSocketRef.current.emit('leaveRoom', { roomCode: currentRoom });
-      // Don't set currentRoom to null here - wait for server confirmation
+  const showFloatingReaction = (reaction: Reaction) => {
+    shownReactionsRef.current.set(reaction.id, Date.now());
+    const floating = {
+      key: `${reaction.id}-${Date.now()}`,
+      emoji: reaction.emoji,
+      displayName: reaction.displayName,
+      left: 10 + Math.random() * 80
+    };
+    setFloatingReactions(prev => [...prev, floating].slice(-MAX_FLOATING_REACTIONS));
+  };
+
+  const removeFloatingReaction = (key: string) => {
+    setFloatingReactions(prev => prev.filter(reaction => reaction.key !== key));
+  };
+
+  // Seeks to a timestamp from the chat; the seek is broadcast (or requested) like any other
+  const seekFromChat = (time: number) => {
+    const player = playerRef.current;
+    if (!player || player.readyState() < 1) {
+      showNotification('No video loaded', 'error');
+      return;
+    }
+    const duration = player.duration();
+    player.currentTime(duration ? Math.min(time, duration) : time);
+  };
+
+  // Room management is not queued while offline, the room may look different once we are back
+  const notifyIfOffline = (sent: boolean) => {
+    if (!sent) {
+      showNotification('Offline, try again once reconnected', 'error');
+    }
+  };
+
+  const toggleRoomSetting = (setting: keyof RoomSettings) => {
+    notifyIfOffline(session.updateSettings({ [setting]: !roomSettings[setting] }));
+  };
+
+  const handleRemoveMember = (userId: string, ban: boolean) => {
+    notifyIfOffline(session.removeMember(userId, ban));
+  };
+
+  const handleSetRole = (userId: string, role: Exclude<RoomRole, 'host'>) => {
+    notifyIfOffline(session.setRole(userId, role));
+  };
+
+  const handleTransferHost = (userId: string) => {
+    notifyIfOffline(session.transferHost(userId));
+  };
+
+  // Carries out a viewer's playback request; the resulting player event is broadcast as usual
+  const applyPlaybackRequest = (request: PlaybackRequestedPayload) => {
+    const player = playerRef.current;
+    session.dismissPlaybackRequest(request);
+    if (!player) {
+      showNotification('No video loaded', 'error');
+      return;
+    }
+
+    if (request.action === 'play') {
+      player.play().catch((error: unknown) => console.error('Failed to play video:', error));
+    } else if (request.action === 'pause') {
+      player.pause();
     } else {
-      showNotification('Not in a room', 'error');
+      player.currentTime(request.currentTime);
     }
   };
 
@@ -651,6 +1063,17 @@ export default function MediaPlayer() {
     }
   };
 
+  const copyInviteLink = async () => {
+    if (!currentRoom) return;
+    try {
+      await navigator.clipboard.writeText(buildInviteLink(currentRoom));
+      showNotification('Invite link copied to clipboard!', 'success');
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+      showNotification('Failed to copy invite link', 'error');
+    }
+  };
+
   const pasteFromClipboard = async () => {
     try {
       const text = await navigator.clipboard.readText();
@@ -704,10 +1127,26 @@ export default function MediaPlayer() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".mp4,.mov,.webm,.ogg,.avi,.mkv,video/mp4,video/quicktime,video/webm,video/ogg,video/x-msvideo,video/*"
+        accept={MEDIA_FILE_ACCEPT}
         onChange={handleFileSelect}
         className="hidden"
       />
+      <input
+        ref={queueInputRef}
+        type="file"
+        multiple
+        accept={MEDIA_FILE_ACCEPT}
+        onChange={handleQueueFilesSelect}
+        className="hidden"
+      />
+      <input
+        ref={subtitleInputRef}
+        type="file"
+        multiple
+        accept={SUBTITLE_FILE_ACCEPT}
+        onChange={handleSubtitleFilesSelect}
+        className="hidden"
+      />
 
       {/* Navigation Header */}
       <nav className="sticky top-0 z-40 backdrop-blur-md bg-white/70 dark:bg-gray-900/70 border-b border-gray-200/50 dark:border-gray-700/50">
@@ -760,7 +1199,12 @@ export default function MediaPlayer() {
           {/* Media Player Section */}
           <div className="lg:col-span-2">
             <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-2xl p-6 border border-gray-200 dark:border-gray-700 shadow-lg">
-              <div className="aspect-video bg-gray-900 rounded-xl overflow-hidden relative">
+              <div
+                className={`aspect-video bg-gray-900 rounded-xl overflow-hidden relative ${isFileDragOver ? 'ring-4 ring-blue-500' : ''}`}
+                onDragOver={handleFileDragOver}
+                onDragLeave={() => setIsFileDragOver(false)}
+                onDrop={handleFileDrop}
+              >
                 {isVideoLoading && (
                   <div className="absolute inset-0 flex items-center justify-center bg-gray-900/50 z-10">
                     <div className="text-center">
@@ -771,7 +1215,7 @@ export default function MediaPlayer() {
                 )}
                 
                 {isMounted && (
-                  <div data-vjs-player style={{ display: currentFile ? 'block' : 'none' }}>
+                  <div data-vjs-player style={{ display: currentSource ? 'block' : 'none' }}>
                     <video
                       ref={videoRef}
                       className="video-js vjs-default-skin w-full h-full object-contain"
@@ -789,7 +1233,7 @@ export default function MediaPlayer() {
                     </video>
                   </div>
                 )}
-                {!currentFile && (
+                {!currentSource && (
                   <div className="flex items-center justify-center h-full text-gray-400">
                     <div className="text-center">
                       <svg className="w-16 h-16 mx-auto mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -801,7 +1245,95 @@ export default function MediaPlayer() {
                   </div>
                 )}
               </div>
+
+              {/* Next Queue Entry Prompt */}
+              {needsQueueFile && currentEntry && !currentEntry.media.url && (
+                <div className="mt-4 p-3 flex items-center justify-between bg-blue-50 dark:bg-blue-900/30 rounded-xl border border-blue-200 dark:border-blue-700">
+                  <p className="text-sm text-blue-700 dark:text-blue-300 min-w-0 truncate" title={currentEntry.media.name}>
+                    The room is playing &quot;{currentEntry.media.name}&quot;, pick your copy to follow along
+                  </p>
+                  <button
+                    onClick={openFileDialog}
+                    className="ml-3 px-3 py-1.5 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium flex-shrink-0 transition-colors"
+                  >
+                    Choose file
+                  </button>
+                </div>
+              )}
+
+              {/* Room Media Stream Prompt */}
+              {roomUrlOffer && (
+                <div className="mt-4 p-3 flex items-center justify-between bg-blue-50 dark:bg-blue-900/30 rounded-xl border border-blue-200 dark:border-blue-700">
+                  <p className="text-sm text-blue-700 dark:text-blue-300 min-w-0 truncate" title={roomUrlOffer}>
+                    {roomMediaFrom?.displayName ?? 'Someone'} switched the room to {mediaUrlHost(roomUrlOffer)}, stream it?
+                  </p>
+                  <div className="ml-3 flex items-center space-x-2 flex-shrink-0">
+                    <button
+                      onClick={() => loadUrl(roomUrlOffer)}
+                      className="px-3 py-1.5 text-xs rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+                    >
+                      Stream it
+                    </button>
+                    <button
+                      onClick={() => setDismissedRoomUrl(roomUrlOffer)}
+                      className="px-3 py-1.5 text-xs rounded-lg text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-800/50 font-medium transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Reactions */}
+              {currentRoom && (
+                <div className="mt-4 flex items-center justify-center space-x-2">
+                  {REACTION_EMOJIS.map(emoji => (
+                    <button
+                      key={emoji}
+                      onClick={() => session.sendReaction(emoji)}
+                      disabled={!localMedia}
+                      className="w-10 h-10 text-xl rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:hover:scale-100"
+                      title={localMedia ? `React with ${emoji}` : 'Load media to react'}
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {playerElements && createPortal(
+                <ReactionOverlay reactions={floatingReactions} onDone={removeFloatingReaction} />,
+                playerElements.root
+              )}
+              {playerElements && currentRoom && createPortal(
+                <GroupPlaybackOverlay
+                  waitingFor={waitingFor.map(userId =>
+                    members.find(member => member.userId === userId)?.displayName ?? 'someone'
+                  )}
+                  countdownTo={countdownTo}
+                  now={session.now}
+                />,
+                playerElements.root
+              )}
+              {playerElements?.seekBar && currentRoom && createPortal(
+                <ReactionHeatmap reactions={reactions} duration={localMedia?.duration ?? 0} />,
+                playerElements.seekBar
+              )}
             </div>
+
+            {/* Chat */}
+            {currentRoom && (
+              <div className="mt-6 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-2xl p-6 border border-gray-200 dark:border-gray-700 shadow-lg">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Chat</h3>
+                <RoomChat
+                  messages={chatMessages}
+                  typing={typingMembers}
+                  selfId={profile?.clientId}
+                  onSend={sendChatMessage}
+                  onTypingChange={(isTyping) => session.setTyping(isTyping)}
+                  onSeek={seekFromChat}
+                />
+              </div>
+            )}
           </div>
 
           {/* Control Panel Sidebar */}
@@ -842,6 +1374,25 @@ export default function MediaPlayer() {
                 )}
               </button>
               
+              {/* Load From URL */}
+              <form onSubmit={handleMediaUrlSubmit} className="mt-3 flex space-x-2">
+                <input
+                  type="url"
+                  value={mediaUrlInput}
+                  onChange={(e) => setMediaUrlInput(e.target.value)}
+                  placeholder="https://… .mp4, .webm, .m3u8 or .mpd"
+                  className="min-w-0 flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={isLoading || isFileLoading}
+                />
+                <button
+                  type="submit"
+                  disabled={isLoading || isFileLoading || !mediaUrlInput.trim()}
+                  className="px-3 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium flex-shrink-0 transition-colors"
+                >
+                  Load URL
+                </button>
+              </form>
+              
               {/* Current Media Info */}
               {currentFileName && (
                 <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
@@ -858,6 +1409,53 @@ export default function MediaPlayer() {
                   </div>
                 </div>
               )}
+
+              <PlaybackFallback
+                problem={playbackProblem}
+                progress={remuxProgress}
+                onRemux={startRemux}
+                onCancel={cancelRemux}
+              />
+
+              {qualityLevels && <QualitySelector levels={qualityLevels} />}
+
+              <EmbeddedTracks
+                tracks={embeddedTracks}
+                extractedIds={extractedSubtitleIds}
+                progress={demuxProgress}
+                audioTracks={audioTracks}
+                onSelectAudio={selectAudioTrack}
+              />
+
+              <SubtitleControls
+                hasMedia={!!currentSource}
+                trackCount={subtitleTrackCount}
+                offset={subtitleOffset}
+                style={subtitleStyle}
+                onLoadFile={() => subtitleInputRef.current?.click()}
+                onOffsetChange={setSubtitleOffset}
+                onStyleChange={changeSubtitleStyle}
+              />
+
+              {/* Media Mismatch Warning */}
+              {hasMediaMismatch && !needsQueueFile && roomMedia && (
+                <div className="mt-2 p-2 bg-red-50 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-700">
+                  <p className="text-xs text-red-600 dark:text-red-300 flex items-center">
+                    <span className="mr-1">⚠️</span>
+                    <span className="truncate" title={roomMedia.name}>
+                      Different file than the room&apos;s &quot;{roomMedia.name}&quot;
+                    </span>
+                    {roomMedia.url && !roomUrlOffer && (
+                      <button
+                        onClick={() => loadUrl(roomMedia.url!)}
+                        className="ml-auto pl-2 font-medium underline flex-shrink-0"
+                      >
+                        Stream it
+                      </button>
+                    )}
+                  </p>
+                </div>
+              )}
               
               {/* Volume Boost Control */}
               <div className="mt-6">
@@ -911,7 +1509,7 @@ export default function MediaPlayer() {
                       {autoSyncEnabled ? 'ON' : 'OFF'}
                     </span>
                     <button
-                      onClick={() => setAutoSyncEnabled(!autoSyncEnabled)}
+                      onClick={() => session.setAutoSync(!autoSyncEnabled)}
                       className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
                         autoSyncEnabled 
                           ? 'bg-blue-600' 
@@ -932,6 +1530,18 @@ export default function MediaPlayer() {
                     : 'Manual sync only - use the sync button to synchronize'
                   }
                 </p>
+                {driftStatus && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 font-mono">
+                    Drift {driftStatus.drift >= 0 ? '+' : ''}{(driftStatus.drift * 1000).toFixed(0)}ms
+                    {driftStatus.rateFactor !== 1 && ` · correcting at ${driftStatus.rateFactor.toFixed(3)}x`}
+                  </p>
+                )}
+                {isConnected && clockStatus && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 font-mono">
+                    Clock offset {clockStatus.offset >= 0 ? '+' : ''}{Math.round(clockStatus.offset)}ms
+                    {clockStatus.rtt !== null && ` · RTT ${Math.round(clockStatus.rtt)}ms`}
+                  </p>
+                )}
                 {isReceivingSync && (
                   <div className="mt-2 p-2 bg-green-50 dark:bg-green-900/30 rounded-lg border border-green-200 dark:border-green-700">
                     <p className="text-xs text-green-600 dark:text-green-300 flex items-center">
@@ -949,13 +1559,25 @@ export default function MediaPlayer() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                   <div>
-                    <h4 className="text-sm font-medium text-blue-800 dark:text-blue-200 mb-2">macOS Playback Issues?</h4>
+                    <h4 className="text-sm font-medium text-blue-800 dark:text-blue-200 mb-2">Playback Issues?</h4>
                     <ul className="text-xs text-blue-700 dark:text-blue-300 space-y-1">
                       <li>• Use MP4 files with H.264 codec for best compatibility</li>
+                      <li>• MKV files this browser cannot open can be converted to MP4 right here</li>
                       <li>• Try Chrome or Firefox if Safari doesn&apos;t work</li>
-                      <li>• Convert videos using HandBrake or similar tools</li>
                       <li>• Check browser console for detailed error info</li>
                     </ul>
+                    {codecSupport.length > 0 && (
+                      <div className="mt-3">
+                        <p className="text-xs font-medium text-blue-800 dark:text-blue-200 mb-1">This browser plays</p>
+                        <ul className="grid grid-cols-2 gap-x-2 text-xs text-blue-700 dark:text-blue-300">
+                          {codecSupport.map(entry => (
+                            <li key={entry.label} className={entry.supported ? '' : 'line-through opacity-60'}>
+                              {entry.supported ? '✓' : '✗'} {entry.label}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -971,14 +1593,39 @@ export default function MediaPlayer() {
               </div>
               
               <div className="space-y-4">
+                {/* Display Name */}
+                <div>
+                  <label htmlFor="display-name" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                    Your name
+                  </label>
+                  <input
+                    id="display-name"
+                    type="text"
+                    value={displayNameInput}
+                    onChange={(e) => setDisplayNameInput(e.target.value)}
+                    onBlur={commitDisplayName}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    maxLength={MAX_DISPLAY_NAME_LENGTH}
+                    placeholder="Display name"
+                    className="w-full px-4 py-2 rounded-xl border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    disabled={!profile}
+                  />
+                </div>
+
                 {/* Room Code Input */}
                 <div className="relative">
                   <input
                     type="text"
                     value={roomCode}
-                    onChange={(e) => setRoomCode(e.target.value)}
+                    onChange={(e) => {
+                      setRoomCode(e.target.value);
+                      if (roomOpError?.code === 'ROOM_NOT_FOUND') setRoomOpError(null);
+                    }}
                     placeholder="Enter Room Code"
-                    className="w-full px-4 py-3 pr-12 rounded-xl border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    aria-invalid={roomOpError?.code === 'ROOM_NOT_FOUND'}
+                    className={`w-full px-4 py-3 pr-12 rounded-xl border ${roomOpError?.code === 'ROOM_NOT_FOUND' ? 'border-red-500 dark:border-red-500' : 'border-gray-300 dark:border-gray-600'} bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200`}
                     disabled={isLoading}
                   />
                   <button
@@ -993,6 +1640,18 @@ export default function MediaPlayer() {
                   </button>
                 </div>
                 
+                {/* New Room Password */}
+                <input
+                  type="password"
+                  value={createPassword}
+                  onChange={(e) => setCreatePassword(e.target.value)}
+                  maxLength={MAX_ROOM_PASSWORD_LENGTH}
+                  placeholder="Password for a new room (optional)"
+                  autoComplete="new-password"
+                  className="w-full px-4 py-2 rounded-xl border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  disabled={isLoading}
+                />
+
                 {/* Action Buttons */}
                 <div className="grid grid-cols-2 gap-3">
                   <button
@@ -1030,6 +1689,72 @@ export default function MediaPlayer() {
                   </button>
                 </div>
                 
+                {/* Room Operation Error */}
+                {roomOpError && (
+                  <RoomErrorNotice
+                    error={roomOpError}
+                    onRetry={retryRoomOp}
+                    onDismiss={() => setRoomOpError(null)}
+                  />
+                )}
+
+                {/* Room Password Prompt */}
+                {passwordPrompt && (
+                  <form
+                    onSubmit={submitRoomPassword}
+                    className="p-3 space-y-2 bg-yellow-50 dark:bg-yellow-900/30 rounded-xl border border-yellow-200 dark:border-yellow-700"
+                  >
+                    <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+                      🔒 Room {passwordPrompt.roomCode} requires a password
+                    </p>
+                    <input
+                      type="password"
+                      value={passwordInput}
+                      onChange={(e) => setPasswordInput(e.target.value)}
+                      maxLength={MAX_ROOM_PASSWORD_LENGTH}
+                      placeholder="Enter password"
+                      autoComplete="current-password"
+                      autoFocus
+                      className="w-full px-3 py-2 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                      disabled={isLoading}
+                    />
+                    {passwordPrompt.error && (
+                      <p className="text-xs text-red-600 dark:text-red-400">{passwordPrompt.error}</p>
+                    )}
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        type="button"
+                        onClick={cancelPasswordPrompt}
+                        className="px-3 py-1.5 text-sm rounded-lg text-yellow-800 dark:text-yellow-200 hover:bg-yellow-100 dark:hover:bg-yellow-900/50 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isLoading || !passwordInput}
+                        className="px-3 py-1.5 text-sm rounded-lg bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 text-white transition-colors"
+                      >
+                        Join
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                {/* Start Together Button */}
+                {currentRoom && canControl && (
+                  <button
+                    onClick={startTogether}
+                    disabled={!session.canStartTogether || countdownTo !== null}
+                    className="w-full py-3 px-4 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-xl font-medium transition-all duration-200 flex items-center justify-center shadow-md hover:shadow-lg"
+                    title={localMedia ? 'Everyone starts playing at the same moment after a 3-2-1 countdown' : 'Load media to start together'}
+                  >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    Start Together
+                  </button>
+                )}
+
                 {/* Leave Room Button */}
                 {currentRoom && (
                   <button
@@ -1042,6 +1767,167 @@ export default function MediaPlayer() {
                     Leave Room
                   </button>
                 )}
+
+                {/* Invite */}
+                {currentRoom && isMounted && (
+                  <RoomInvite inviteLink={buildInviteLink(currentRoom)} onCopyLink={copyInviteLink} />
+                )}
+
+                {/* Host Controls Playback Setting */}
+                {currentRoom && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Host controls playback
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {myRole === 'host'
+                          ? 'Viewers send requests instead of changing playback'
+                          : canControl
+                            ? 'You can control playback'
+                            : 'Your controls send requests to the host'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => toggleRoomSetting('hostControlsPlayback')}
+                      disabled={myRole !== 'host'}
+                      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                        roomSettings.hostControlsPlayback
+                          ? 'bg-blue-600'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                      }`}
+                      title={myRole === 'host' ? 'Toggle host-only playback control' : 'Only the host can change this'}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          roomSettings.hostControlsPlayback ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
+                {/* Lock Room Setting */}
+                {currentRoom && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Lock room
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {roomSettings.locked ? 'Nobody new can join' : 'Anyone with the code can join'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => toggleRoomSetting('locked')}
+                      disabled={myRole !== 'host'}
+                      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                        roomSettings.locked
+                          ? 'bg-blue-600'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                      }`}
+                      title={myRole === 'host' ? 'Toggle room lock' : 'Only the host can change this'}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          roomSettings.locked ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
+                {/* Wait For Buffering Setting */}
+                {currentRoom && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Wait for everyone
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {roomSettings.waitForBuffering
+                          ? 'Playback pauses while someone is buffering'
+                          : 'Playback continues when someone buffers'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => toggleRoomSetting('waitForBuffering')}
+                      disabled={myRole !== 'host'}
+                      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                        roomSettings.waitForBuffering
+                          ? 'bg-blue-600'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                      }`}
+                      title={myRole === 'host' ? 'Toggle waiting for buffering members, e.g. off for large rooms' : 'Only the host can change this'}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          roomSettings.waitForBuffering ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
+                {/* Playback Requests */}
+                {currentRoom && canControl && playbackRequests.length > 0 && (
+                  <div className="space-y-2">
+                    {playbackRequests.map(request => (
+                      <div
+                        key={`${request.userId}-${request.action}-${request.currentTime}`}
+                        className="flex items-center justify-between p-2 bg-orange-50 dark:bg-orange-900/30 rounded-lg border border-orange-200 dark:border-orange-700"
+                      >
+                        <p className="text-xs text-orange-700 dark:text-orange-300 min-w-0 truncate">
+                          {members.find(member => member.userId === request.userId)?.displayName ?? 'Someone'} asks to {request.action}
+                          {request.action === 'seek' && ` to ${formatTime(request.currentTime)}`}
+                        </p>
+                        <div className="flex items-center space-x-1 flex-shrink-0">
+                          <button
+                            onClick={() => applyPlaybackRequest(request)}
+                            className="px-2 py-1 text-xs rounded-md bg-orange-600 hover:bg-orange-700 text-white transition-colors"
+                          >
+                            Apply
+                          </button>
+                          <button
+                            onClick={() => session.dismissPlaybackRequest(request)}
+                            className="px-2 py-1 text-xs rounded-md text-orange-700 dark:text-orange-300 hover:bg-orange-100 dark:hover:bg-orange-900/50 transition-colors"
+                          >
+                            Dismiss
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Queue */}
+                {currentRoom && (
+                  <RoomQueue
+                    queue={queue}
+                    members={members}
+                    canEdit={canControl}
+                    localMedia={localMedia}
+                    onAddFiles={() => queueInputRef.current?.click()}
+                    onAddCurrent={addCurrentToQueue}
+                    onRemove={(entryId) => notifyIfOffline(session.removeFromQueue(entryId))}
+                    onMove={(entryId, index) => notifyIfOffline(session.moveInQueue(entryId, index))}
+                    onPlay={(entryId) => notifyIfOffline(session.playQueueEntry(entryId))}
+                  />
+                )}
+
+                {/* Participants */}
+                {currentRoom && members.length > 0 && (
+                  <RoomParticipants
+                    members={members}
+                    selfId={profile?.clientId}
+                    myRole={myRole}
+                    onSetRole={handleSetRole}
+                    onTransferHost={handleTransferHost}
+                    onRemoveMember={handleRemoveMember}
+                    roomMedia={roomMedia}
+                    serverNow={session.now()}
+                  />
+                )}
               </div>
             </div>
           </div>
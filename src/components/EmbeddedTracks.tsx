@@ -0,0 +1,105 @@
+'use client';
+
+import React from 'react';
+import { EmbeddedTrack, embeddedTrackLabel } from '../demux';
+
+/**
+ * An audio track of the player, see Video.js `audioTracks()`
+ */
+export interface AudioTrackOption {
+  id: string;
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+interface EmbeddedTracksProps {
+  // Tracks found in the loaded file, null when it was not scanned
+  tracks: EmbeddedTrack[] | null;
+  // Ids of the subtitle tracks whose text was extracted
+  extractedIds: number[];
+  // Fraction of the file scanned, null when not scanning
+  progress: number | null;
+  // Audio tracks the browser can switch between
+  audioTracks: AudioTrackOption[];
+  onSelectAudio: (id: string) => void;
+}
+
+/**
+ * Audio and subtitle streams found inside the loaded file
+ */
+const EmbeddedTracks: React.FC<EmbeddedTracksProps> = ({ tracks, extractedIds, progress, audioTracks, onSelectAudio }) => {
+  const embeddedAudio = tracks?.filter(track => track.kind === 'audio') ?? [];
+  const embeddedSubtitles = tracks?.filter(track => track.kind === 'subtitles') ?? [];
+  const enabledAudio = audioTracks.find(track => track.enabled);
+
+  if (progress === null && audioTracks.length < 2 && embeddedAudio.length < 2 && embeddedSubtitles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6">
+      <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Embedded Tracks</p>
+
+      {progress !== null && (
+        <div className="mb-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+            Scanning the file for subtitles… {Math.round(progress * 100)}%
+          </p>
+          <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress * 100}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {audioTracks.length > 1 ? (
+        <label className="block mb-3">
+          <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Audio</span>
+          <select
+            value={enabledAudio?.id ?? ''}
+            onChange={(e) => onSelectAudio(e.target.value)}
+            className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {audioTracks.map((track, index) => (
+              <option key={track.id} value={track.id}>
+                {[track.label, track.language].filter(Boolean).join(' · ') || `Track ${index + 1}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : embeddedAudio.length > 1 && (
+        <div className="mb-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Audio</p>
+          <ul className="space-y-1">
+            {embeddedAudio.map(track => (
+              <li key={track.id} className="text-xs text-gray-900 dark:text-white">
+                {embeddedTrackLabel(track)} <span className="text-gray-500 dark:text-gray-400">({track.codec})</span>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-1 text-xs text-orange-600 dark:text-orange-400">
+            This browser only plays the default audio track
+          </p>
+        </div>
+      )}
+
+      {embeddedSubtitles.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Subtitles</p>
+          <ul className="space-y-1">
+            {embeddedSubtitles.map(track => (
+              <li key={track.id} className="flex justify-between text-xs text-gray-900 dark:text-white">
+                <span className="truncate">{embeddedTrackLabel(track)}</span>
+                <span className="ml-2 flex-shrink-0 text-gray-500 dark:text-gray-400">
+                  {extractedIds.includes(track.id) ? 'in the CC menu' : `${track.codec}, not supported`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmbeddedTracks;
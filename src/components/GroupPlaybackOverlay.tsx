@@ -0,0 +1,57 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+interface GroupPlaybackOverlayProps {
+  // Display names of the members the room is waiting for
+  waitingFor: string[];
+  // Server time (ms) at which playback starts, null when not counting down
+  countdownTo: number | null;
+  // Current server time (ms)
+  now: () => number;
+}
+
+// Refresh often enough that the digit flips close to the real second boundary
+const TICK_MS = 100;
+
+/**
+ * Shown over the video while the room waits for buffering members, then
+ * counts down to the moment everyone starts playing together
+ */
+const GroupPlaybackOverlay: React.FC<GroupPlaybackOverlayProps> = ({ waitingFor, countdownTo, now }) => {
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (countdownTo === null) {
+      setRemaining(null);
+      return;
+    }
+    const tick = () => setRemaining(Math.max(0, countdownTo - now()));
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [countdownTo, now]);
+
+  if (remaining !== null && remaining > 0) {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center bg-black/40 pointer-events-none z-20">
+        <span key={Math.ceil(remaining / 1000)} className="text-8xl font-bold text-white drop-shadow-lg animate-pulse">
+          {Math.ceil(remaining / 1000)}
+        </span>
+      </div>
+    );
+  }
+
+  if (waitingFor.length === 0) return null;
+
+  return (
+    <div className="absolute top-4 inset-x-0 flex justify-center pointer-events-none z-20">
+      <div className="flex items-center px-3 py-1.5 rounded-full bg-black/60 text-sm text-white">
+        <div className="w-4 h-4 mr-2 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+        Waiting for {waitingFor.join(', ')} to buffer…
+      </div>
+    </div>
+  );
+};
+
+export default GroupPlaybackOverlay;
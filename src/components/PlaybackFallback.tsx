@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { RemuxPlan } from '../demux';
+
+/**
+ * Why the loaded file does not play, and what can be done about it
+ */
+export interface PlaybackProblem {
+  reason: string;
+  // Repackages the file into an MP4 this browser plays, null when that would not help
+  remux: RemuxPlan | null;
+  // Why remuxing would not help, when it would not
+  detail: string | null;
+}
+
+interface PlaybackFallbackProps {
+  problem: PlaybackProblem | null;
+  // Fraction of the file remuxed, null when not remuxing
+  progress: number | null;
+  onRemux: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Offers an in-browser conversion when the loaded file cannot be played
+ */
+const PlaybackFallback: React.FC<PlaybackFallbackProps> = ({ problem, progress, onRemux, onCancel }) => {
+  if (!problem) return null;
+
+  return (
+    <div className="mt-4 p-3 bg-orange-50 dark:bg-orange-900/30 rounded-lg border border-orange-200 dark:border-orange-700">
+      <p className="text-sm font-medium text-orange-800 dark:text-orange-200">{problem.reason}</p>
+
+      {problem.remux ? (
+        progress !== null ? (
+          <div className="mt-2">
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-xs text-orange-700 dark:text-orange-300">
+                Converting to MP4… {Math.round(progress * 100)}%
+              </p>
+              <button onClick={onCancel} className="text-xs font-medium text-orange-700 dark:text-orange-300 underline">
+                Cancel
+              </button>
+            </div>
+            <div className="h-1.5 bg-orange-200 dark:bg-orange-800 rounded-full overflow-hidden">
+              <div className="h-full bg-orange-500 transition-all" style={{ width: `${progress * 100}%` }}></div>
+            </div>
+          </div>
+        ) : (
+          <>
+            <p className="mt-1 text-xs text-orange-700 dark:text-orange-300">
+              Its {problem.remux.tracks.map(track => track.codec).join(' and ')} streams can be repackaged
+              as MP4 without re-encoding. The file never leaves your device.
+            </p>
+            <button
+              onClick={onRemux}
+              className="mt-2 px-3 py-1.5 text-xs font-medium text-white bg-orange-500 hover:bg-orange-600 rounded-lg transition-colors"
+            >
+              Convert to MP4 in the browser
+            </button>
+          </>
+        )
+      ) : (
+        <p className="mt-1 text-xs text-orange-700 dark:text-orange-300">
+          {problem.detail && `${problem.detail}. `}
+          Convert it to MP4 with H.264 video and AAC audio, e.g. with HandBrake, or try another browser.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackFallback;
@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+/**
+ * A rendition of an HLS or DASH stream, see videojs-contrib-quality-levels
+ */
+interface QualityLevel {
+  id: string;
+  width?: number;
+  height?: number;
+  // Bits per second
+  bitrate?: number;
+  enabled: boolean;
+}
+
+/**
+ * The subset of the player's `qualityLevels()` list the selector uses
+ */
+export interface QualityLevelList {
+  readonly length: number;
+  readonly selectedIndex: number;
+  [index: number]: QualityLevel;
+  on(event: string | string[], handler: () => void): void;
+  off(event: string | string[], handler: () => void): void;
+}
+
+interface QualitySelectorProps {
+  levels: QualityLevelList;
+}
+
+const AUTO = 'auto';
+
+function levelLabel(level: QualityLevel): string {
+  const parts: string[] = [];
+  if (level.height) {
+    parts.push(`${level.height}p`);
+  }
+  if (level.bitrate) {
+    parts.push(`${Math.round(level.bitrate / 1000)} kbps`);
+  }
+  return parts.join(' · ') || level.id;
+}
+
+/**
+ * Picks the rendition of an adaptive stream, or leaves the choice to bandwidth estimation ("Auto")
+ */
+const QualitySelector: React.FC<QualitySelectorProps> = ({ levels }) => {
+  const [selected, setSelected] = useState(AUTO);
+  // Bumped when renditions are added or removed, or the playing one changes
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    setSelected(AUTO);
+    const refresh = () => setRevision(revision => revision + 1);
+    levels.on(['addqualitylevel', 'removequalitylevel', 'change'], refresh);
+    return () => levels.off(['addqualitylevel', 'removequalitylevel', 'change'], refresh);
+  }, [levels]);
+
+  const available = Array.from({ length: levels.length }, (_, index) => levels[index])
+    .sort((a, b) => (b.height ?? 0) - (a.height ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0));
+  if (available.length < 2) return null;
+
+  const playing = levels.selectedIndex >= 0 ? levels[levels.selectedIndex] : undefined;
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = event.target.value;
+    setSelected(id);
+    for (const level of available) {
+      level.enabled = id === AUTO || level.id === id;
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Quality
+      </label>
+      <select
+        value={selected}
+        onChange={handleChange}
+        className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value={AUTO}>Auto{playing && selected === AUTO ? ` (${levelLabel(playing)})` : ''}</option>
+        {available.map(level => (
+          <option key={level.id} value={level.id}>{levelLabel(level)}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default QualitySelector;
@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { Reaction } from '../sync/protocol';
+
+interface ReactionHeatmapProps {
+  reactions: Reaction[];
+  // Media duration (s)
+  duration: number;
+}
+
+const BIN_COUNT = 100;
+
+/**
+ * Reaction density along the timeline, rendered above Video.js' seek bar
+ */
+const ReactionHeatmap: React.FC<ReactionHeatmapProps> = ({ reactions, duration }) => {
+  if (!duration || reactions.length === 0) return null;
+
+  const bins = new Array<number>(BIN_COUNT).fill(0);
+  for (const reaction of reactions) {
+    const bin = Math.min(BIN_COUNT - 1, Math.floor((reaction.mediaTime / duration) * BIN_COUNT));
+    bins[bin]++;
+  }
+  const max = Math.max(...bins);
+
+  return (
+    <div
+      className="absolute left-0 right-0 flex items-end pointer-events-none"
+      style={{ bottom: '100%', height: '14px' }}
+      aria-hidden="true"
+    >
+      {bins.map((count, index) => (
+        <div
+          key={index}
+          className="flex-1 bg-orange-400 rounded-t-sm"
+          style={{ height: `${(count / max) * 100}%`, opacity: count ? 0.4 + 0.6 * (count / max) : 0 }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ReactionHeatmap;
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+
+export interface FloatingReaction {
+  key: string;
+  emoji: string;
+  displayName: string;
+  // Horizontal position over the player, in percent
+  left: number;
+}
+
+interface ReactionOverlayProps {
+  reactions: FloatingReaction[];
+  // Called once a reaction's animation has finished
+  onDone: (key: string) => void;
+}
+
+/**
+ * Emoji reactions rising over the video; sits inside the player container
+ */
+const ReactionOverlay: React.FC<ReactionOverlayProps> = ({ reactions, onDone }) => (
+  <div className="absolute inset-0 pointer-events-none overflow-hidden z-20">
+    {reactions.map(reaction => (
+      <div
+        key={reaction.key}
+        className="absolute bottom-16 flex flex-col items-center animate-reaction-float"
+        style={{ left: `${reaction.left}%` }}
+        onAnimationEnd={() => onDone(reaction.key)}
+      >
+        <span className="text-4xl drop-shadow-lg">{reaction.emoji}</span>
+        <span className="mt-1 px-1.5 rounded bg-black/50 text-[10px] text-white whitespace-nowrap">
+          {reaction.displayName}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default ReactionOverlay;
@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, MAX_CHAT_MESSAGE_LENGTH } from '../sync/protocol';
+import { TYPING_REFRESH_MS, TypingMember } from '../sync/syncSession';
+import { formatTime } from '../utils/formatTime';
+
+interface RoomChatProps {
+  messages: ChatMessage[];
+  // User id -> typing member
+  typing: Record<string, TypingMember>;
+  selfId: string | undefined;
+  onSend: (text: string) => void;
+  onTypingChange: (isTyping: boolean) => void;
+  onSeek: (time: number) => void;
+}
+
+// m:ss or h:mm:ss inside a message
+const TIMESTAMP_PATTERN = /\b(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)\b/g;
+
+type MessagePart = { kind: 'text'; text: string } | { kind: 'time'; text: string; seconds: number };
+
+/**
+ * Splits a message into plain text and timestamps that can be clicked to seek
+ */
+function splitTimestamps(text: string): MessagePart[] {
+  const parts: MessagePart[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(TIMESTAMP_PATTERN)) {
+    const [whole, hours, minutes, seconds] = match;
+    // Without an hour part, minutes may exceed 59 (e.g. 75:10)
+    if (hours !== undefined && Number(minutes) > 59) continue;
+
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ kind: 'text', text: text.slice(lastIndex, index) });
+    }
+    parts.push({
+      kind: 'time',
+      text: whole,
+      seconds: Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds)
+    });
+    lastIndex = index + whole.length;
+  }
+  if (lastIndex < text.length) {
+    parts.push({ kind: 'text', text: text.slice(lastIndex) });
+  }
+  return parts;
+}
+
+function typingLabel(names: string[]): string | null {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return 'Several people are typing…';
+}
+
+const RoomChat: React.FC<RoomChatProps> = ({
+  messages,
+  typing,
+  selfId,
+  onSend,
+  onTypingChange,
+  onSeek
+}) => {
+  const [draft, setDraft] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const listRef = useRef<HTMLDivElement>(null);
+  // When we last told the room we are typing, 0 when we are not
+  const typingSentAtRef = useRef(0);
+
+  const typingNames = Object.entries(typing)
+    .filter(([userId, member]) => userId !== selfId && member.expiresAt > now)
+    .map(([, member]) => member.displayName);
+  const hasTyping = Object.keys(typing).length > 0;
+
+  // Re-render while indicators are shown so expired ones disappear
+  useEffect(() => {
+    if (!hasTyping) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasTyping]);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [messages]);
+
+  const stopTyping = () => {
+    if (typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      onTypingChange(false);
+    }
+  };
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+    if (Date.now() - typingSentAtRef.current > TYPING_REFRESH_MS) {
+      typingSentAtRef.current = Date.now();
+      onTypingChange(true);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft('');
+    stopTyping();
+  };
+
+  const label = typingLabel(typingNames);
+
+  return (
+    <div className="flex flex-col">
+      <div
+        ref={listRef}
+        className="h-64 overflow-y-auto space-y-3 pr-1"
+      >
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+            No messages yet. Say hi!
+          </p>
+        ) : (
+          messages.map(message => (
+            <div key={message.id} className="text-sm">
+              <div className="flex items-baseline space-x-2">
+                <span className={`font-medium truncate ${
+                  message.userId === selfId
+                    ? 'text-blue-600 dark:text-blue-400'
+                    : 'text-gray-900 dark:text-white'
+                }`}>
+                  {message.displayName}
+                </span>
+                <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">
+                  {new Date(message.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                {message.mediaTime !== null && (
+                  <button
+                    onClick={() => onSeek(message.mediaTime ?? 0)}
+                    className="text-xs font-mono text-blue-600 dark:text-blue-400 hover:underline flex-shrink-0"
+                    title="Seek to this moment"
+                  >
+                    @{formatTime(message.mediaTime)}
+                  </button>
+                )}
+              </div>
+              <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+                {splitTimestamps(message.text).map((part, index) => part.kind === 'time' ? (
+                  <button
+                    key={index}
+                    onClick={() => onSeek(part.seconds)}
+                    className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                    title={`Seek to ${part.text}`}
+                  >
+                    {part.text}
+                  </button>
+                ) : (
+                  <React.Fragment key={index}>{part.text}</React.Fragment>
+                ))}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <p className="h-5 mt-1 text-xs text-gray-500 dark:text-gray-400 italic truncate">
+        {label}
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => handleDraftChange(e.target.value)}
+          onBlur={stopTyping}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          placeholder="Message the room"
+          className="flex-1 min-w-0 px-4 py-2 rounded-xl border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 text-white disabled:text-gray-500 rounded-xl font-medium transition-colors disabled:cursor-not-allowed"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RoomChat;
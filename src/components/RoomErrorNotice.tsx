@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { RoomRequestError, isRetryableRoomError } from '../sync/roomClient';
+
+interface RoomErrorNoticeProps {
+  error: RoomRequestError;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+interface NoticeStyle {
+  icon: string;
+  title: string;
+  className: string;
+}
+
+const WARNING = 'bg-yellow-50 dark:bg-yellow-900/30 border-yellow-200 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200';
+const ERROR = 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-700 text-red-800 dark:text-red-200';
+const NEUTRAL = 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600 text-gray-800 dark:text-gray-200';
+
+/**
+ * How each failure is presented. Password failures never get here, they open the password prompt.
+ */
+const NOTICE_STYLES: Partial<Record<RoomRequestError['code'], NoticeStyle>> = {
+  ROOM_NOT_FOUND: { icon: '🔍', title: 'Room not found', className: ERROR },
+  ROOM_FULL: { icon: '👥', title: 'Room is full', className: WARNING },
+  ROOM_LOCKED: { icon: '🔒', title: 'Room is locked', className: WARNING },
+  BANNED: { icon: '⛔', title: 'You are banned from this room', className: ERROR },
+  CLIENT_ID_IN_USE: { icon: '🪪', title: 'Your identity is in use', className: ERROR },
+  RATE_LIMITED: { icon: '⏳', title: 'Too many attempts', className: WARNING },
+  SERVER_BUSY: { icon: '🛠️', title: 'Server is busy', className: NEUTRAL },
+  TIMEOUT: { icon: '📡', title: 'No response from the server', className: NEUTRAL }
+};
+
+const DEFAULT_STYLE: NoticeStyle = { icon: '⚠️', title: 'Something went wrong', className: ERROR };
+
+/**
+ * Explains why creating or joining a room failed, with a retry for transient failures
+ */
+const RoomErrorNotice: React.FC<RoomErrorNoticeProps> = ({ error, onRetry, onDismiss }) => {
+  const style = NOTICE_STYLES[error.code] ?? DEFAULT_STYLE;
+
+  return (
+    <div role="alert" className={`p-3 rounded-xl border text-sm ${style.className}`}>
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="font-medium">{style.icon} {style.title}</p>
+          <p className="mt-0.5 text-xs opacity-80">{error.message}</p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="ml-2 opacity-60 hover:opacity-100 transition-opacity"
+          title="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+      {isRetryableRoomError(error) && (
+        <button
+          onClick={onRetry}
+          className="mt-2 px-3 py-1.5 text-xs rounded-lg bg-white/60 hover:bg-white dark:bg-gray-800/60 dark:hover:bg-gray-800 font-medium transition-colors"
+        >
+          Try again
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RoomErrorNotice;
@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+
+interface RoomInviteProps {
+  inviteLink: string;
+  onCopyLink: () => void;
+}
+
+/**
+ * Invite actions for the current room. The QR code is rendered locally, the
+ * link never leaves the browser.
+ */
+const RoomInvite: React.FC<RoomInviteProps> = ({ inviteLink, onCopyLink }) => {
+  const [showQrCode, setShowQrCode] = useState(false);
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!showQrCode) return;
+
+    let cancelled = false;
+    QRCode.toDataURL(inviteLink, { margin: 1, width: 200, errorCorrectionLevel: 'M' })
+      .then(url => {
+        if (!cancelled) setQrCodeUrl(url);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to generate QR code:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [inviteLink, showQrCode]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onCopyLink}
+          className="py-2 px-3 bg-blue-50 hover:bg-blue-100 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 text-blue-700 dark:text-blue-300 rounded-xl text-sm font-medium transition-colors flex items-center justify-center"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+          </svg>
+          Copy invite link
+        </button>
+        <button
+          onClick={() => setShowQrCode(show => !show)}
+          className="py-2 px-3 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-xl text-sm font-medium transition-colors"
+        >
+          {showQrCode ? 'Hide QR code' : 'Show QR code'}
+        </button>
+      </div>
+      {showQrCode && (
+        <div className="flex flex-col items-center p-3 bg-white rounded-xl border border-gray-200 dark:border-gray-600">
+          {qrCodeUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={qrCodeUrl} alt="QR code for the invite link" width={200} height={200} />
+          ) : (
+            <div className="w-[200px] h-[200px] flex items-center justify-center">
+              <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+          <p className="mt-2 text-xs text-gray-500 break-all text-center">{inviteLink}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomInvite;
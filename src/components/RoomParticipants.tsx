@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { MediaIdentity, MemberPresence, RoomMemberInfo, RoomRole, isSameMedia } from '../sync/protocol';
+import { extrapolatePosition } from '../sync/clock';
+import { formatTime } from '../utils/formatTime';
+
+interface RoomParticipantsProps {
+  members: RoomMemberInfo[];
+  selfId: string | undefined;
+  myRole: RoomRole | null;
+  onSetRole: (userId: string, role: Exclude<RoomRole, 'host'>) => void;
+  onTransferHost: (userId: string) => void;
+  onRemoveMember: (userId: string, ban: boolean) => void;
+  // What the room is watching, members' media is compared against it
+  roomMedia: MediaIdentity | null;
+  // Current server-clock time (ms), presence timestamps are on the server clock
+  serverNow: number;
+}
+
+const ROLE_LABELS: Record<RoomRole, string> = {
+  host: 'Host',
+  cohost: 'Co-host',
+  viewer: 'Viewer'
+};
+
+const ROLE_STYLES: Record<RoomRole, string> = {
+  host: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  cohost: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+  viewer: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+};
+
+// Presence is sent every 2s, a member silent for this long is probably gone
+const STALE_PRESENCE_MS = 10000;
+const POOR_RTT_MS = 400;
+
+function connectionStatus(presence: MemberPresence | null, serverNow: number) {
+  if (!presence) {
+    return { label: 'Connecting', className: 'bg-gray-400' };
+  }
+  if (serverNow - presence.updatedAt > STALE_PRESENCE_MS) {
+    return { label: 'Not responding', className: 'bg-red-500' };
+  }
+  if (presence.rtt !== null && presence.rtt > POOR_RTT_MS) {
+    return { label: `Poor connection (${Math.round(presence.rtt)}ms)`, className: 'bg-yellow-500' };
+  }
+  return {
+    label: presence.rtt !== null ? `Online (${Math.round(presence.rtt)}ms)` : 'Online',
+    className: 'bg-green-500'
+  };
+}
+
+function playbackSummary(presence: MemberPresence | null, serverNow: number): string | null {
+  if (!presence || presence.position === null) return null;
+
+  const position = presence.isBuffering
+    ? presence.position
+    : extrapolatePosition(
+      { currentTime: presence.position, isPlaying: presence.isPlaying, playbackRate: presence.playbackRate },
+      presence.updatedAt,
+      serverNow
+    );
+  const parts = [`${presence.isPlaying ? '▶' : '⏸'} ${formatTime(position)}`];
+  if (presence.playbackRate !== 1) {
+    parts.push(`${presence.playbackRate}x`);
+  }
+  if (presence.subtitleLanguage) {
+    parts.push(`CC ${presence.subtitleLanguage}`);
+  }
+  if (presence.drift !== null) {
+    parts.push(`${presence.drift >= 0 ? '+' : ''}${Math.round(presence.drift * 1000)}ms`);
+  }
+  if (presence.isBuffering) {
+    parts.push('buffering…');
+  }
+  return parts.join(' · ');
+}
+
+function mediaStatus(media: MediaIdentity | null, roomMedia: MediaIdentity | null) {
+  if (!media) {
+    return { label: 'No media', className: 'text-gray-400 dark:text-gray-500' };
+  }
+  if (!roomMedia || isSameMedia(media, roomMedia)) {
+    return { label: '✓ Same media', className: 'text-green-600 dark:text-green-400' };
+  }
+  return { label: '⚠ Different media', className: 'text-red-600 dark:text-red-400' };
+}
+
+const RoomParticipants: React.FC<RoomParticipantsProps> = ({
+  members,
+  selfId,
+  myRole,
+  onSetRole,
+  onTransferHost,
+  onRemoveMember,
+  roomMedia,
+  serverNow
+}) => {
+  const isHost = myRole === 'host';
+  // Re-render periodically so members who stop reporting are shown as not responding
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick(tick => tick + 1), STALE_PRESENCE_MS / 2);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide font-medium mb-2">
+        Participants ({members.length})
+      </p>
+      <ul className="space-y-2">
+        {members.map(member => {
+          const isSelf = member.userId === selfId;
+          const status = mediaStatus(member.media, roomMedia);
+          const connection = connectionStatus(member.presence, serverNow);
+          const playback = playbackSummary(member.presence, serverNow);
+          return (
+            <li
+              key={member.userId}
+              className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span
+                    className={`w-2 h-2 rounded-full flex-shrink-0 ${connection.className}`}
+                    title={connection.label}
+                  ></span>
+                  <span className="text-sm font-medium text-gray-900 dark:text-white truncate" title={member.displayName}>
+                    {member.displayName}
+                    {isSelf && <span className="font-normal text-gray-500 dark:text-gray-400"> (you)</span>}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ROLE_STYLES[member.role]}`}>
+                    {ROLE_LABELS[member.role]}
+                  </span>
+                </div>
+                <p className={`text-xs truncate ${status.className}`} title={member.media?.name}>
+                  {status.label}
+                </p>
+                {playback && (
+                  <p className={`text-xs font-mono truncate ${
+                    member.presence?.isBuffering
+                      ? 'text-orange-500 dark:text-orange-400'
+                      : 'text-gray-500 dark:text-gray-400'
+                  }`}>
+                    {playback}
+                  </p>
+                )}
+              </div>
+              {isHost && !isSelf && (
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => onSetRole(member.userId, member.role === 'cohost' ? 'viewer' : 'cohost')}
+                    className="px-2 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                    title={member.role === 'cohost' ? 'Make viewer' : 'Make co-host'}
+                  >
+                    {member.role === 'cohost' ? 'Demote' : 'Promote'}
+                  </button>
+                  <button
+                    onClick={() => onTransferHost(member.userId)}
+                    className="px-2 py-1 text-xs rounded-md text-yellow-700 dark:text-yellow-300 hover:bg-yellow-100 dark:hover:bg-yellow-900/30 transition-colors"
+                    title="Transfer host role"
+                  >
+                    Make host
+                  </button>
+                  <button
+                    onClick={() => onRemoveMember(member.userId, false)}
+                    className="px-2 py-1 text-xs rounded-md text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                    title="Remove from the room, they can rejoin"
+                  >
+                    Kick
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Ban ${member.displayName} from this room?`)) {
+                        onRemoveMember(member.userId, true);
+                      }
+                    }}
+                    className="px-2 py-1 text-xs rounded-md text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                    title="Remove from the room for good"
+                  >
+                    Ban
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default RoomParticipants;
@@ -0,0 +1,134 @@
+'use client';
+
+import React from 'react';
+import { MediaIdentity, RoomMemberInfo, RoomQueue as Queue, isSameMedia } from '../sync/protocol';
+import { formatTime } from '../utils/formatTime';
+
+interface RoomQueueProps {
+  queue: Queue;
+  members: RoomMemberInfo[];
+  // Whether the local user may change the queue
+  canEdit: boolean;
+  localMedia: MediaIdentity | null;
+  // Opens a file picker; the chosen files are fingerprinted and queued
+  onAddFiles: () => void;
+  onAddCurrent: () => void;
+  onRemove: (entryId: string) => void;
+  onMove: (entryId: string, index: number) => void;
+  onPlay: (entryId: string) => void;
+}
+
+const BUTTON_CLASS = 'px-1.5 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+/**
+ * The room's shared queue. Everyone plays their own copy of each file, matched by fingerprint.
+ */
+const RoomQueue: React.FC<RoomQueueProps> = ({
+  queue,
+  members,
+  canEdit,
+  localMedia,
+  onAddFiles,
+  onAddCurrent,
+  onRemove,
+  onMove,
+  onPlay
+}) => {
+  const canAddCurrent = canEdit && !!localMedia && !queue.entries.some(entry => isSameMedia(entry.media, localMedia));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide font-medium">
+          Queue ({queue.entries.length})
+        </p>
+        {canEdit && (
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={onAddCurrent}
+              disabled={!canAddCurrent}
+              className={BUTTON_CLASS}
+              title="Add the loaded media to the queue"
+            >
+              + Current
+            </button>
+            <button onClick={onAddFiles} className={BUTTON_CLASS} title="Add files to the queue">
+              + Files
+            </button>
+          </div>
+        )}
+      </div>
+      {queue.entries.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {canEdit ? 'Queue files to play them one after another' : 'Nothing queued'}
+        </p>
+      ) : (
+        <ol className="space-y-1">
+          {queue.entries.map((entry, index) => {
+            const isCurrent = entry.id === queue.currentId;
+            const isLoaded = !!localMedia && isSameMedia(localMedia, entry.media);
+            const addedBy = members.find(member => member.userId === entry.addedBy)?.displayName;
+            return (
+              <li
+                key={entry.id}
+                className={`flex items-center justify-between p-2 rounded-lg border ${
+                  isCurrent
+                    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-700'
+                    : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600'
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate" title={entry.media.name}>
+                    {isCurrent && '▶ '}{entry.media.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {formatTime(entry.media.duration)}
+                    {addedBy && ` · added by ${addedBy}`}
+                    {isLoaded && ' · loaded'}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center flex-shrink-0">
+                    <button
+                      onClick={() => onPlay(entry.id)}
+                      disabled={isCurrent}
+                      className={BUTTON_CLASS}
+                      title="Play this next for everyone"
+                    >
+                      ▶
+                    </button>
+                    <button
+                      onClick={() => onMove(entry.id, index - 1)}
+                      disabled={index === 0}
+                      className={BUTTON_CLASS}
+                      title="Move up"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      onClick={() => onMove(entry.id, index + 1)}
+                      disabled={index === queue.entries.length - 1}
+                      className={BUTTON_CLASS}
+                      title="Move down"
+                    >
+                      ▼
+                    </button>
+                    <button
+                      onClick={() => onRemove(entry.id)}
+                      className="px-1.5 py-1 text-xs rounded-md text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                      title="Remove from the queue"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RoomQueue;
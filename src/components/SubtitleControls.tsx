@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import { SubtitleStyle } from '../utils/subtitles';
+
+interface SubtitleControlsProps {
+  // Whether media is loaded, subtitles are attached to it
+  hasMedia: boolean;
+  // Subtitle tracks loaded from files
+  trackCount: number;
+  // Seconds added to every cue, positive shows subtitles later
+  offset: number;
+  style: SubtitleStyle;
+  onLoadFile: () => void;
+  onOffsetChange: (offset: number) => void;
+  onStyleChange: (style: SubtitleStyle) => void;
+}
+
+const OFFSET_STEPS = [-0.5, -0.1, 0.1, 0.5];
+
+const SIZE_OPTIONS: [string, string][] = [['0.75', 'Small'], ['1.00', 'Normal'], ['1.50', 'Large'], ['2.00', 'Huge']];
+const COLOR_OPTIONS: [string, string][] = [['#FFF', 'White'], ['#FF0', 'Yellow'], ['#0FF', 'Cyan']];
+const BACKGROUND_OPTIONS: [string, string][] = [['1', 'Solid'], ['0.5', 'Translucent'], ['0', 'None']];
+
+const SELECT_CLASS = 'w-full px-2 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Loads subtitle files and adjusts their timing and look; all of it is local to this viewer
+ */
+const SubtitleControls: React.FC<SubtitleControlsProps> = ({
+  hasMedia,
+  trackCount,
+  offset,
+  style,
+  onLoadFile,
+  onOffsetChange,
+  onStyleChange
+}) => {
+  const styleSelect = (key: keyof SubtitleStyle, label: string, options: [string, string][]) => (
+    <label className="block">
+      <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</span>
+      <select
+        value={style[key]}
+        onChange={(e) => onStyleChange({ ...style, [key]: e.target.value })}
+        className={SELECT_CLASS}
+      >
+        {options.map(([value, name]) => (
+          <option key={value} value={value}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Subtitles</span>
+        <button
+          onClick={onLoadFile}
+          disabled={!hasMedia}
+          className="px-2 py-1 text-xs rounded-md text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+          title={hasMedia ? 'Load an .srt, .vtt or .ass file' : 'Load media first'}
+        >
+          + Load file
+        </button>
+      </div>
+      {trackCount > 0 && (
+        <>
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Timing</span>
+            <div className="flex items-center space-x-1">
+              {OFFSET_STEPS.map(step => (
+                <button
+                  key={step}
+                  onClick={() => onOffsetChange(Math.round((offset + step) * 10) / 10)}
+                  className="px-1.5 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  title={step < 0 ? 'Show subtitles earlier' : 'Show subtitles later'}
+                >
+                  {step > 0 ? '+' : ''}{step}
+                </button>
+              ))}
+              <button
+                onClick={() => onOffsetChange(0)}
+                disabled={offset === 0}
+                className="w-14 px-1.5 py-1 text-xs font-mono rounded-md text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-600 disabled:hover:bg-transparent transition-colors"
+                title="Reset timing"
+              >
+                {offset > 0 ? '+' : ''}{offset.toFixed(1)}s
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {styleSelect('fontPercent', 'Size', SIZE_OPTIONS)}
+            {styleSelect('color', 'Color', COLOR_OPTIONS)}
+            {styleSelect('backgroundOpacity', 'Background', BACKGROUND_OPTIONS)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleControls;
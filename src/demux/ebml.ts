@@ -0,0 +1,102 @@
+/**
+ * EBML, the binary format of Matroska: elements are an ID and a size, both
+ * variable-length integers, followed by the payload
+ */
+import { FileWindowReader } from './reader';
+
+export const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  Language: 0x22b59c,
+  LanguageIETF: 0x22b59d,
+  Name: 0x536e,
+  FlagDefault: 0x88,
+  ContentEncodings: 0x6d80,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb
+};
+
+export const UNKNOWN_SIZE = -1;
+
+export interface ElementHeader {
+  id: number;
+  // Payload size, UNKNOWN_SIZE for live-written masters
+  size: number;
+  dataStart: number;
+}
+
+/**
+ * Reads an EBML variable-length integer. IDs keep their length marker, sizes do not.
+ */
+export function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xff;
+  }
+  return { value: !keepMarker && allOnes ? UNKNOWN_SIZE : value, length };
+}
+
+function parseHeader(bytes: Uint8Array, offset: number): { id: number; size: number; headerLength: number } | null {
+  const id = readVint(bytes, offset, true);
+  if (!id) return null;
+  const size = readVint(bytes, offset + id.length, false);
+  if (!size) return null;
+  return { id: id.value, size: size.value, headerLength: id.length + size.length };
+}
+
+export async function readHeader(reader: FileWindowReader, offset: number): Promise<ElementHeader | null> {
+  const header = parseHeader(await reader.bytes(offset, 12), 0);
+  return header && { id: header.id, size: header.size, dataStart: offset + header.headerLength };
+}
+
+/**
+ * Child elements of a master element held in memory
+ */
+export function children(bytes: Uint8Array): Array<{ id: number; data: Uint8Array }> {
+  const result: Array<{ id: number; data: Uint8Array }> = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const header = parseHeader(bytes, offset);
+    if (!header || header.size === UNKNOWN_SIZE) break;
+    const start = offset + header.headerLength;
+    result.push({ id: header.id, data: bytes.subarray(start, start + header.size) });
+    offset = start + header.size;
+  }
+  return result;
+}
+
+/**
+ * 4- or 8-byte big-endian float
+ */
+export function readFloat(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return bytes.length === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
@@ -0,0 +1,284 @@
+/**
+ * Fragmented MP4 writing, the target of remuxing
+ *
+ * The output is an initialization segment (ftyp, moov) followed by one
+ * movie fragment (moof, mdat) per group of samples. Sample data is never
+ * copied here: callers write the mdat payload themselves, so it can point
+ * straight into the source file.
+ */
+
+export interface Mp4TrackConfig {
+  id: number;
+  kind: 'video' | 'audio';
+  // Ticks per second of the sample times
+  timescale: number;
+  // Sample entry box describing the codec, e.g. avc1 holding an avcC
+  sampleEntry: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface Mp4Sample {
+  size: number;
+  // Decode time and duration, in track timescale ticks
+  dts: number;
+  duration: number;
+  // Presentation time minus decode time, negative for some B-frames
+  compositionOffset: number;
+  isKeyframe: boolean;
+}
+
+export interface Mp4Run {
+  track: Mp4TrackConfig;
+  samples: Mp4Sample[];
+}
+
+// The movie header's time base; tracks keep their own
+const MOVIE_TIMESCALE = 1000;
+
+// sample_depends_on = 2 (independent); = 1 plus sample_is_non_sync_sample
+const KEYFRAME_FLAGS = 0x02000000;
+const DELTA_FRAME_FLAGS = 0x01010000;
+
+const UNITY_MATRIX = [0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000];
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function u8(...values: number[]): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(values);
+}
+
+function u16(...values: number[]): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(values.length * 2);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint16(i * 2, value & 0xffff));
+  return bytes;
+}
+
+// Negative values are written in two's complement
+function u32(...values: number[]): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value >>> 0));
+  return bytes;
+}
+
+// Exact below 2^53
+function u64(value: number): Uint8Array<ArrayBuffer> {
+  return u32(Math.floor(value / 0x100000000), value % 0x100000000);
+}
+
+function ascii(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+function zeros(length: number): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(length);
+}
+
+export function box(type: string, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const body = concat(payload);
+  return concat([u32(8 + body.length), ascii(type), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return box(type, u32((version << 24) | flags), ...payload);
+}
+
+/**
+ * Sample entry of a video codec; `config` is its configuration box (avcC, hvcC, av1C)
+ */
+export function visualSampleEntry(format: string, width: number, height: number, config: Uint8Array): Uint8Array<ArrayBuffer> {
+  return box(
+    format,
+    zeros(6), u16(1), // data_reference_index
+    zeros(16),
+    u16(width, height),
+    u32(0x00480000, 0x00480000), // 72 dpi
+    zeros(4),
+    u16(1), // frame_count
+    zeros(32), // compressorname
+    u16(0x0018, 0xffff), // depth, pre_defined
+    config
+  );
+}
+
+/**
+ * Sample entry of an audio codec; `config` is its configuration box (esds, dOps)
+ */
+export function audioSampleEntry(format: string, channels: number, sampleRate: number, config: Uint8Array): Uint8Array<ArrayBuffer> {
+  return box(
+    format,
+    zeros(6), u16(1), // data_reference_index
+    zeros(8),
+    u16(channels, 16), // channelcount, samplesize
+    zeros(4),
+    // 16.16 fixed point, which rates above 64 kHz do not fit
+    u32(Math.min(sampleRate, 0xffff) * 0x10000),
+    config
+  );
+}
+
+function descriptor(tag: number, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const body = concat(payload);
+  // Size in 7-bit groups; some parsers only read the one-byte form
+  const size = body.length < 0x80
+    ? [body.length]
+    : [21, 14, 7].map(shift => ((body.length >> shift) & 0x7f) | 0x80).concat(body.length & 0x7f);
+  return concat([u8(tag, ...size), body]);
+}
+
+/**
+ * Elementary stream descriptor of MPEG-4 audio
+ * @param objectType 0x40 for AAC, 0x6b for MP3
+ * @param decoderConfig AudioSpecificConfig for AAC, empty otherwise
+ */
+export function esds(trackId: number, objectType: number, decoderConfig: Uint8Array): Uint8Array<ArrayBuffer> {
+  return fullBox(
+    'esds', 0, 0,
+    descriptor(
+      0x03,
+      u16(trackId), u8(0),
+      descriptor(
+        0x04,
+        u8(objectType, 0x15), // audio stream
+        zeros(3), u32(0, 0), // buffer size, max and average bitrates
+        ...(decoderConfig.length > 0 ? [descriptor(0x05, decoderConfig)] : [])
+      ),
+      descriptor(0x06, u8(0x02))
+    )
+  );
+}
+
+function trak(track: Mp4TrackConfig): Uint8Array<ArrayBuffer> {
+  const isVideo = track.kind === 'video';
+  return box(
+    'trak',
+    fullBox(
+      'tkhd', 0, 0x000003, // enabled, in movie
+      u32(0, 0, track.id, 0, 0), zeros(8),
+      u16(0, 0, isVideo ? 0 : 0x0100, 0), // layer, alternate_group, volume
+      u32(...UNITY_MATRIX),
+      u32(track.width * 0x10000, track.height * 0x10000)
+    ),
+    box(
+      'mdia',
+      fullBox('mdhd', 0, 0, u32(0, 0, track.timescale, 0), u16(0x55c4, 0)), // language 'und'
+      fullBox('hdlr', 0, 0, u32(0), ascii(isVideo ? 'vide' : 'soun'), zeros(12), ascii(isVideo ? 'VideoHandler' : 'SoundHandler'), u8(0)),
+      box(
+        'minf',
+        isVideo ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4)),
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        box(
+          'stbl',
+          fullBox('stsd', 0, 0, u32(1), track.sampleEntry),
+          // Samples are described by the fragments
+          fullBox('stts', 0, 0, u32(0)),
+          fullBox('stsc', 0, 0, u32(0)),
+          fullBox('stsz', 0, 0, u32(0, 0)),
+          fullBox('stco', 0, 0, u32(0))
+        )
+      )
+    )
+  );
+}
+
+/**
+ * ftyp and moov, declaring the tracks and the total duration (s)
+ */
+export function initSegment(tracks: Mp4TrackConfig[], duration: number): Uint8Array<ArrayBuffer> {
+  const movieDuration = Math.round(duration * MOVIE_TIMESCALE);
+  return concat([
+    box('ftyp', ascii('iso5'), u32(0x200), ascii('iso5iso6mp41')),
+    box(
+      'moov',
+      fullBox(
+        'mvhd', 0, 0,
+        u32(0, 0, MOVIE_TIMESCALE, movieDuration, 0x00010000), u16(0x0100), zeros(10),
+        u32(...UNITY_MATRIX), zeros(24),
+        u32(Math.max(...tracks.map(track => track.id)) + 1)
+      ),
+      ...tracks.map(trak),
+      box(
+        'mvex',
+        // Without it players that do not read every fragment up front show no duration
+        fullBox('mehd', 1, 0, u64(movieDuration)),
+        ...tracks.map(track => fullBox('trex', 0, 0, u32(track.id, 1, 0, 0, 0)))
+      )
+    )
+  ]);
+}
+
+function traf(run: Mp4Run, dataOffset: number): Uint8Array<ArrayBuffer> {
+  const samples = run.samples;
+  const entries = samples.map(sample => u32(
+    sample.duration,
+    sample.size,
+    sample.isKeyframe ? KEYFRAME_FLAGS : DELTA_FRAME_FLAGS,
+    sample.compositionOffset
+  ));
+  return box(
+    'traf',
+    fullBox('tfhd', 0, 0x020000, u32(run.track.id)), // default-base-is-moof
+    fullBox('tfdt', 1, 0, u64(samples[0]?.dts ?? 0)),
+    // data offset, duration, size, flags and composition offset per sample; v1 for signed offsets
+    fullBox('trun', 1, 0x000f01, u32(samples.length, dataOffset), ...entries)
+  );
+}
+
+/**
+ * moof and the header of its mdat. The sample data must follow, run after
+ * run, each in sample order.
+ */
+export function fragmentHeader(sequence: number, runs: Mp4Run[]): Uint8Array<ArrayBuffer> {
+  const runSizes = runs.map(run => run.samples.reduce((sum, sample) => sum + sample.size, 0));
+  const build = (moofSize: number) => {
+    let dataOffset = moofSize + 8;
+    return box(
+      'moof',
+      fullBox('mfhd', 0, 0, u32(sequence)),
+      ...runs.map((run, i) => {
+        const result = traf(run, dataOffset);
+        dataOffset += runSizes[i];
+        return result;
+      })
+    );
+  };
+  // Offsets do not change the size, so a first pass measures it
+  const moof = build(build(0).length);
+  const mdatSize = 8 + runSizes.reduce((sum, size) => sum + size, 0);
+  return concat([moof, u32(mdatSize), ascii('mdat')]);
+}
+
+export interface SegmentReference {
+  // Bytes of the fragment, header and samples
+  size: number;
+  // In reference track ticks
+  duration: number;
+  startsWithKeyframe: boolean;
+}
+
+/**
+ * sidx listing every fragment, for seeking without reading them all. Goes
+ * right after the moov.
+ */
+export function segmentIndex(track: Mp4TrackConfig, earliestTime: number, references: SegmentReference[]): Uint8Array<ArrayBuffer> {
+  return fullBox(
+    'sidx', 1, 0,
+    u32(track.id, track.timescale), u64(earliestTime), u64(0),
+    u16(0, references.length),
+    ...references.map(reference => u32(
+      reference.size & 0x7fffffff,
+      reference.duration,
+      reference.startsWithKeyframe ? 0x90000000 : 0 // starts_with_SAP, SAP type 1
+    ))
+  );
+}
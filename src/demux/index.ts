@@ -0,0 +1,37 @@
+/**
+ * Client-side demuxing of local media files: lists their embedded audio and
+ * subtitle tracks, extracts text subtitles and repackages Matroska as MP4,
+ * without uploading anything
+ */
+import { demuxMatroska } from './matroska';
+import { demuxMp4 } from './mp4';
+import { DemuxOptions, DemuxResult, EmbeddedTrack } from './types';
+
+export type { DemuxOptions, DemuxResult, EmbeddedSubtitles, EmbeddedTrack, EmbeddedTrackKind } from './types';
+export { planRemux, remuxToMp4 } from './remux';
+export type { RemuxCheck, RemuxPlan, RemuxTrack } from './remux';
+
+const EBML_MAGIC = [0x1a, 0x45, 0xdf, 0xa3];
+
+/**
+ * Reads the embedded tracks of a Matroska or MP4 file. Null for other
+ * containers, and when the scan was aborted.
+ */
+export async function readEmbeddedTracks(file: Blob, options: DemuxOptions = {}): Promise<DemuxResult | null> {
+  const head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (EBML_MAGIC.every((byte, i) => head[i] === byte)) {
+    return demuxMatroska(file, options);
+  }
+  if (String.fromCharCode(...head.subarray(4, 8)) === 'ftyp') {
+    return demuxMp4(file, options);
+  }
+  return null;
+}
+
+/**
+ * Name of an embedded track for menus: its title and language, else its number
+ */
+export function embeddedTrackLabel(track: EmbeddedTrack): string {
+  const parts = [track.name, track.language !== 'und' ? track.language : ''].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : `Track ${track.id}`;
+}
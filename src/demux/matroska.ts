@@ -0,0 +1,163 @@
+/**
+ * Matroska (MKV, WebM) demuxing, limited to what the player needs
+ *
+ * The track list comes from the Tracks element. Text subtitles are stored as
+ * blocks interleaved with audio and video across the whole file, so clusters
+ * are scanned block by block; audio and video payloads are skipped unread.
+ */
+import { SubtitleCue, assTextToVtt } from '../utils/subtitles';
+import { DemuxOptions, DemuxResult, EmbeddedSubtitles, EmbeddedTrack, EmbeddedTrackKind } from './types';
+import { FileWindowReader, decodeUtf8, readUint } from './reader';
+import { ID, UNKNOWN_SIZE, children, readHeader, readVint } from './ebml';
+
+const TRACK_KINDS: Record<number, EmbeddedTrackKind> = {
+  1: 'video',
+  2: 'audio',
+  0x11: 'subtitles'
+};
+
+// Subtitle codecs whose blocks are text; PGS and VobSub are images
+const TEXT_SUBTITLE_CODECS = ['S_TEXT/UTF8', 'S_TEXT/ASS', 'S_TEXT/SSA', 'S_TEXT/WEBVTT'];
+
+// Larger block groups hold video frames, never subtitles
+const MAX_BLOCK_GROUP_SIZE = 256 * 1024;
+// Shown for subtitle blocks stored without a duration, unless the next one starts earlier (s)
+const DEFAULT_CUE_DURATION = 5;
+
+function parseTrackEntry(bytes: Uint8Array): EmbeddedTrack | null {
+  let id = 0;
+  let type = 0;
+  let codec = '';
+  let language = 'eng';
+  let languageIetf = '';
+  let name = '';
+  let isDefault = true;
+  for (const child of children(bytes)) {
+    switch (child.id) {
+      case ID.TrackNumber: id = readUint(child.data); break;
+      case ID.TrackType: type = readUint(child.data); break;
+      case ID.CodecID: codec = decodeUtf8(child.data); break;
+      case ID.Language: language = decodeUtf8(child.data); break;
+      case ID.LanguageIETF: languageIetf = decodeUtf8(child.data); break;
+      case ID.Name: name = decodeUtf8(child.data); break;
+      case ID.FlagDefault: isDefault = readUint(child.data) === 1; break;
+    }
+  }
+  const kind = TRACK_KINDS[type];
+  if (!id || !kind) return null;
+  // Strings may be padded with NULs
+  const clean = (value: string) => value.replace(/\0+$/, '');
+  return { id, kind, codec: clean(codec), language: clean(languageIetf || language), name: clean(name), isDefault };
+}
+
+function blockText(codec: string, payload: Uint8Array): string {
+  const text = decodeUtf8(payload).replace(/\r\n?/g, '\n').trim();
+  if (codec === 'S_TEXT/ASS' || codec === 'S_TEXT/SSA') {
+    // ReadOrder, Layer, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+    return assTextToVtt(text.split(',').slice(8).join(','));
+  }
+  return text;
+}
+
+/**
+ * Lists the tracks of a Matroska file and reads its text subtitles
+ */
+export async function demuxMatroska(file: Blob, options: DemuxOptions = {}): Promise<DemuxResult | null> {
+  const reader = new FileWindowReader(file);
+  const tracks: EmbeddedTrack[] = [];
+  const cuesByTrack = new Map<number, SubtitleCue[]>();
+  let timestampScale = 1000000;
+  let clusterTimestamp = 0;
+  let lastProgress = 0;
+
+  const addBlock = (block: Uint8Array, duration: number | null) => {
+    const trackNumber = readVint(block, 0, false);
+    if (!trackNumber) return;
+    const cues = cuesByTrack.get(trackNumber.value);
+    // Subtitle blocks are never laced
+    const flags = block[trackNumber.length + 2];
+    if (!cues || flags === undefined || (flags & 0x06) !== 0) return;
+
+    const track = tracks.find(entry => entry.id === trackNumber.value)!;
+    const relative = (block[trackNumber.length] << 24 >> 16) | block[trackNumber.length + 1];
+    const start = (clusterTimestamp + relative) * timestampScale / 1e9;
+    const text = blockText(track.codec, block.subarray(trackNumber.length + 3));
+    if (text) {
+      cues.push({ start, end: duration === null ? NaN : start + duration * timestampScale / 1e9, text });
+    }
+  };
+
+  let offset = 0;
+  while (offset < reader.size) {
+    if (options.signal?.aborted) return null;
+    if (offset - lastProgress > reader.size / 100) {
+      lastProgress = offset;
+      options.onProgress?.(offset / reader.size);
+    }
+
+    const header = await readHeader(reader, offset);
+    if (!header) break;
+    if (offset === 0 && header.id !== ID.EBML) return null;
+
+    // Descend into the masters that hold what we need
+    if (header.id === ID.Segment || header.id === ID.Cluster) {
+      if (header.id === ID.Cluster && cuesByTrack.size === 0) break;
+      offset = header.dataStart;
+      continue;
+    }
+    if (header.size === UNKNOWN_SIZE) break;
+
+    switch (header.id) {
+      case ID.Info:
+        for (const child of children(await reader.bytes(header.dataStart, header.size))) {
+          if (child.id === ID.TimestampScale) timestampScale = readUint(child.data);
+        }
+        break;
+      case ID.Tracks:
+        for (const child of children(await reader.bytes(header.dataStart, header.size))) {
+          const track = child.id === ID.TrackEntry ? parseTrackEntry(child.data) : null;
+          if (!track) continue;
+          tracks.push(track);
+          if (track.kind === 'subtitles' && TEXT_SUBTITLE_CODECS.includes(track.codec)) {
+            cuesByTrack.set(track.id, []);
+          }
+        }
+        break;
+      case ID.Timestamp:
+        clusterTimestamp = readUint(await reader.bytes(header.dataStart, header.size));
+        break;
+      case ID.SimpleBlock: {
+        // The track number comes first, only subtitle blocks are read in full
+        const start = await reader.bytes(header.dataStart, Math.min(header.size, 8));
+        const trackNumber = readVint(start, 0, false);
+        if (trackNumber && cuesByTrack.has(trackNumber.value)) {
+          addBlock(await reader.bytes(header.dataStart, header.size), null);
+        }
+        break;
+      }
+      case ID.BlockGroup:
+        if (header.size <= MAX_BLOCK_GROUP_SIZE) {
+          const group = children(await reader.bytes(header.dataStart, header.size));
+          const block = group.find(child => child.id === ID.Block);
+          const duration = group.find(child => child.id === ID.BlockDuration);
+          if (block) addBlock(block.data, duration ? readUint(duration.data) : null);
+        }
+        break;
+    }
+    offset = header.dataStart + header.size;
+  }
+  options.onProgress?.(1);
+
+  const subtitles: EmbeddedSubtitles[] = [];
+  for (const [trackId, cues] of cuesByTrack) {
+    cues.sort((a, b) => a.start - b.start);
+    cues.forEach((cue, index) => {
+      if (Number.isNaN(cue.end)) {
+        const next = cues[index + 1];
+        cue.end = Math.min(cue.start + DEFAULT_CUE_DURATION, next && next.start > cue.start ? next.start : Infinity);
+      }
+    });
+    subtitles.push({ track: tracks.find(track => track.id === trackId)!, cues });
+  }
+  return { tracks, subtitles };
+}
@@ -0,0 +1,249 @@
+/**
+ * ISO-BMFF (MP4, MOV) demuxing, limited to what the player needs
+ *
+ * Tracks are described in the `moov` box. Text subtitle samples (3GPP timed
+ * text and WebVTT) are located through each track's sample table and read
+ * one by one. Fragmented files keep their samples in `moof` boxes and only
+ * get their track list.
+ */
+import { SubtitleCue } from '../utils/subtitles';
+import { DemuxOptions, DemuxResult, EmbeddedSubtitles, EmbeddedTrack, EmbeddedTrackKind } from './types';
+import { FileWindowReader, decodeUtf8, readUint } from './reader';
+
+const HANDLER_KINDS: Record<string, EmbeddedTrackKind> = {
+  vide: 'video',
+  soun: 'audio',
+  text: 'subtitles',
+  sbtl: 'subtitles',
+  subt: 'subtitles'
+};
+
+const TEXT_SUBTITLE_FORMATS = ['tx3g', 'wvtt'];
+
+// The movie box of very long files can reach a few megabytes, anything bigger is not worth parsing
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+interface Box {
+  type: string;
+  data: Uint8Array;
+}
+
+function fourCc(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+/**
+ * Boxes held in memory, in order
+ */
+function boxes(bytes: Uint8Array): Box[] {
+  const result: Box[] = [];
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    let size = readUint(bytes, offset, 4);
+    let headerLength = 8;
+    if (size === 1) {
+      size = readUint(bytes, offset + 8, 8);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    if (size < headerLength) break;
+    result.push({ type: fourCc(bytes, offset + 4), data: bytes.subarray(offset + headerLength, offset + size) });
+    offset += size;
+  }
+  return result;
+}
+
+function child(parent: Uint8Array | undefined, type: string): Uint8Array | undefined {
+  return parent && boxes(parent).find(box => box.type === type)?.data;
+}
+
+// ISO 639-2/T code packed as three 5-bit letters
+function unpackLanguage(packed: number): string {
+  const code = [10, 5, 0].map(shift => String.fromCharCode(((packed >> shift) & 0x1f) + 0x60)).join('');
+  return /^[a-z]{3}$/.test(code) ? code : 'und';
+}
+
+interface SampleTable {
+  offsets: number[];
+  sizes: number[];
+  // In media timescale units
+  starts: number[];
+  durations: number[];
+}
+
+function readSampleTable(stbl: Uint8Array): SampleTable | null {
+  const stts = child(stbl, 'stts');
+  const stsc = child(stbl, 'stsc');
+  const stsz = child(stbl, 'stsz');
+  const stco = child(stbl, 'stco');
+  const co64 = child(stbl, 'co64');
+  if (!stts || !stsc || !stsz || !(stco || co64)) return null;
+
+  const sampleSize = readUint(stsz, 4, 4);
+  const sampleCount = readUint(stsz, 8, 4);
+  const sizes = Array.from({ length: sampleCount }, (_, i) => sampleSize || readUint(stsz, 12 + i * 4, 4));
+
+  const starts: number[] = [];
+  const durations: number[] = [];
+  let time = 0;
+  for (let entry = 0, count = readUint(stts, 4, 4); entry < count; entry++) {
+    const samples = readUint(stts, 8 + entry * 8, 4);
+    const delta = readUint(stts, 12 + entry * 8, 4);
+    for (let i = 0; i < samples && starts.length < sampleCount; i++) {
+      starts.push(time);
+      durations.push(delta);
+      time += delta;
+    }
+  }
+
+  const chunkOffsets = co64
+    ? Array.from({ length: readUint(co64, 4, 4) }, (_, i) => readUint(co64, 8 + i * 8, 8))
+    : Array.from({ length: readUint(stco!, 4, 4) }, (_, i) => readUint(stco!, 8 + i * 4, 4));
+
+  // Samples are stored back to back within each chunk
+  const offsets: number[] = [];
+  const stscCount = readUint(stsc, 4, 4);
+  for (let entry = 0; entry < stscCount; entry++) {
+    const firstChunk = readUint(stsc, 8 + entry * 12, 4) - 1;
+    const samplesPerChunk = readUint(stsc, 12 + entry * 12, 4);
+    const lastChunk = entry + 1 < stscCount ? readUint(stsc, 8 + (entry + 1) * 12, 4) - 1 : chunkOffsets.length;
+    for (let chunk = firstChunk; chunk < lastChunk; chunk++) {
+      let offset = chunkOffsets[chunk];
+      for (let i = 0; i < samplesPerChunk && offsets.length < sampleCount; i++) {
+        offsets.push(offset);
+        offset += sizes[offsets.length - 1];
+      }
+    }
+  }
+
+  return { offsets, sizes, starts, durations };
+}
+
+function decodeSample(format: string, sample: Uint8Array): string {
+  if (format === 'tx3g') {
+    // Length-prefixed text, then optional style boxes
+    const length = readUint(sample, 0, 2);
+    const text = sample.subarray(2, 2 + length);
+    // UTF-16 text starts with a byte order mark
+    const decoded = text[0] === 0xfe && text[1] === 0xff
+      ? new TextDecoder('utf-16be').decode(text.subarray(2))
+      : decodeUtf8(text);
+    return decoded.replace(/\r\n?/g, '\n').trim();
+  }
+  // wvtt: a 'vttc' box per cue, its text in a 'payl' box; 'vtte' marks a gap
+  return boxes(sample)
+    .filter(box => box.type === 'vttc')
+    .map(box => decodeUtf8(child(box.data, 'payl') ?? new Uint8Array(0)).trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+interface ParsedTrack {
+  track: EmbeddedTrack;
+  format: string;
+  timescale: number;
+  stbl: Uint8Array | undefined;
+}
+
+function parseTrak(trak: Uint8Array): ParsedTrack | null {
+  const tkhd = child(trak, 'tkhd');
+  const mdia = child(trak, 'mdia');
+  const mdhd = child(mdia, 'mdhd');
+  const hdlr = child(mdia, 'hdlr');
+  const stbl = child(child(mdia, 'minf'), 'stbl');
+  if (!tkhd || !mdhd || !hdlr) return null;
+
+  const kind = HANDLER_KINDS[fourCc(hdlr, 8)];
+  if (!kind) return null;
+
+  const tkhdV1 = tkhd[0] === 1;
+  const id = readUint(tkhd, tkhdV1 ? 20 : 12, 4);
+  // Bit 0 of the flags: track enabled
+  const isDefault = (tkhd[3] & 1) === 1;
+
+  const mdhdV1 = mdhd[0] === 1;
+  const timescale = readUint(mdhd, mdhdV1 ? 20 : 12, 4);
+  const language = unpackLanguage(readUint(mdhd, mdhdV1 ? 32 : 20, 2));
+
+  // hdlr ends with a NUL-terminated name; muxers often write a generic one such as "SoundHandler"
+  const handlerName = decodeUtf8(hdlr.subarray(24)).replace(/\0[\s\S]*$/, '').trim();
+  const name = /handler$/i.test(handlerName) ? '' : handlerName;
+  // stsd: version/flags, entry count, then the first sample entry
+  const stsd = child(stbl, 'stsd');
+  const format = stsd && stsd.length >= 16 ? fourCc(stsd, 12).trim() : '';
+
+  return {
+    track: { id, kind, codec: format, language, name, isDefault },
+    format,
+    timescale,
+    stbl
+  };
+}
+
+/**
+ * Lists the tracks of an MP4 file and reads its text subtitles
+ */
+export async function demuxMp4(file: Blob, options: DemuxOptions = {}): Promise<DemuxResult | null> {
+  const reader = new FileWindowReader(file);
+
+  // Find the movie box among the top-level boxes; it may come after the media data
+  let moov: Uint8Array | null = null;
+  let offset = 0;
+  while (offset + 8 <= reader.size) {
+    const header = await reader.bytes(offset, 16);
+    let size = readUint(header, 0, 4);
+    const type = fourCc(header, 4);
+    let headerLength = 8;
+    if (size === 1) {
+      size = readUint(header, 8, 8);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = reader.size - offset;
+    }
+    if (offset === 0 && type !== 'ftyp') return null;
+    if (size < headerLength) break;
+    if (type === 'moov') {
+      if (size > MAX_MOOV_SIZE) break;
+      moov = await reader.read(offset + headerLength, size - headerLength);
+      break;
+    }
+    offset += size;
+  }
+  if (!moov) return { tracks: [], subtitles: [] };
+
+  const parsed = boxes(moov)
+    .filter(box => box.type === 'trak')
+    .map(box => parseTrak(box.data))
+    .filter((track): track is ParsedTrack => track !== null);
+
+  const textTracks = parsed.filter(entry =>
+    entry.track.kind === 'subtitles' && TEXT_SUBTITLE_FORMATS.includes(entry.format) && entry.stbl
+  );
+  const tables = textTracks.map(entry => readSampleTable(entry.stbl!));
+  const total = tables.reduce((sum, table) => sum + (table?.offsets.length ?? 0), 0);
+  let done = 0;
+
+  const subtitles: EmbeddedSubtitles[] = [];
+  for (const [index, entry] of textTracks.entries()) {
+    const table = tables[index];
+    if (!table) continue;
+
+    const cues: SubtitleCue[] = [];
+    for (let i = 0; i < table.offsets.length; i++) {
+      if (options.signal?.aborted) return null;
+      const text = decodeSample(entry.format, await reader.read(table.offsets[i], table.sizes[i]));
+      if (text) {
+        const start = table.starts[i] / entry.timescale;
+        cues.push({ start, end: start + table.durations[i] / entry.timescale, text });
+      }
+      if (++done % Math.ceil(total / 100) === 0) {
+        options.onProgress?.(done / total);
+      }
+    }
+    subtitles.push({ track: entry.track, cues });
+  }
+  options.onProgress?.(1);
+
+  return { tracks: parsed.map(entry => entry.track), subtitles };
+}
@@ -0,0 +1,59 @@
+/**
+ * Random access to a local file without loading it into memory
+ *
+ * Sequential scans read through a window of the file, so parsing thousands of
+ * small element headers costs one read per window instead of one per header.
+ */
+export class FileWindowReader {
+  private window: Uint8Array = new Uint8Array(0);
+  private windowStart = 0;
+
+  constructor(
+    private readonly file: Blob,
+    private readonly windowSize = 1024 * 1024
+  ) {}
+
+  get size(): number {
+    return this.file.size;
+  }
+
+  /**
+   * Up to `length` bytes at `offset`, fewer at the end of the file
+   */
+  async bytes(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(offset + length, this.file.size);
+    if (offset >= this.windowStart && end <= this.windowStart + this.window.length) {
+      return this.window.subarray(offset - this.windowStart, end - this.windowStart);
+    }
+    if (length > this.windowSize) {
+      return this.read(offset, length);
+    }
+    this.window = await this.read(offset, this.windowSize);
+    this.windowStart = offset;
+    return this.window.subarray(0, end - offset);
+  }
+
+  /**
+   * Reads `length` bytes at `offset` directly, bypassing the window. For scattered reads.
+   */
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    return new Uint8Array(await this.file.slice(offset, offset + length).arrayBuffer());
+  }
+}
+
+const utf8 = new TextDecoder('utf-8');
+
+export function decodeUtf8(bytes: Uint8Array): string {
+  return utf8.decode(bytes);
+}
+
+/**
+ * Big-endian unsigned integer of up to 8 bytes; exact below 2^53
+ */
+export function readUint(bytes: Uint8Array, offset = 0, length = bytes.length - offset): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
@@ -0,0 +1,499 @@
+/**
+ * Repackaging Matroska files as fragmented MP4, without re-encoding
+ *
+ * Browsers that cannot open MKV often decode the H.264, HEVC or AV1 video
+ * and the AAC, MP3 or Opus audio inside it. Only block headers are read: the
+ * output refers to the frames in the source file, so remuxing takes seconds
+ * and no extra memory, and nothing leaves the machine.
+ */
+import { DemuxOptions } from './types';
+import { FileWindowReader, decodeUtf8, readUint } from './reader';
+import { ID, UNKNOWN_SIZE, children, readFloat, readHeader, readVint } from './ebml';
+import {
+  Mp4Run,
+  Mp4Sample,
+  Mp4TrackConfig,
+  SegmentReference,
+  audioSampleEntry,
+  box,
+  esds,
+  fragmentHeader,
+  initSegment,
+  segmentIndex,
+  visualSampleEntry
+} from './fmp4';
+
+export interface RemuxTrack extends Mp4TrackConfig {
+  // Matroska codec ID, e.g. V_MPEG4/ISO/AVC
+  codecId: string;
+  // RFC 6381 codec string, e.g. avc1.64001f
+  codec: string;
+  // Of one frame (ns), 0 when unknown; spaces the frames of laced blocks
+  frameDuration: number;
+}
+
+export interface RemuxPlan {
+  // One video and one audio track at most, the defaults
+  tracks: RemuxTrack[];
+  // MIME type with codecs, for checking that the browser can play the result
+  mimeType: string;
+  // (s)
+  duration: number;
+  timestampScale: number;
+}
+
+export type RemuxCheck = { plan: RemuxPlan } | { reason: string };
+
+interface MatroskaTrack {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate: Uint8Array;
+  defaultDuration: number;
+  isDefault: boolean;
+  isEncoded: boolean;
+  width: number;
+  height: number;
+  sampleRate: number;
+  channels: number;
+}
+
+const VIDEO_TYPE = 1;
+const AUDIO_TYPE = 2;
+
+const VIDEO_TIMESCALE = 90000;
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const AAC_OBJECT_TYPES: Record<string, number> = { MAIN: 1, LC: 2, SSR: 3, LTP: 4 };
+
+// Block headers and lace sizes fit in this, the frames that follow are not read
+const BLOCK_HEADER_READ_SIZE = 16 * 1024;
+// Output chunks merged into one Blob at a time, so the list of parts stays short
+const PARTS_PER_BLOB = 4096;
+
+function parseTrack(bytes: Uint8Array): MatroskaTrack {
+  const track: MatroskaTrack = {
+    number: 0,
+    type: 0,
+    codecId: '',
+    codecPrivate: new Uint8Array(0),
+    defaultDuration: 0,
+    isDefault: true,
+    isEncoded: false,
+    width: 0,
+    height: 0,
+    sampleRate: 8000,
+    channels: 1
+  };
+  for (const child of children(bytes)) {
+    switch (child.id) {
+      case ID.TrackNumber: track.number = readUint(child.data); break;
+      case ID.TrackType: track.type = readUint(child.data); break;
+      case ID.CodecID: track.codecId = decodeUtf8(child.data).replace(/\0+$/, ''); break;
+      case ID.CodecPrivate: track.codecPrivate = child.data; break;
+      case ID.DefaultDuration: track.defaultDuration = readUint(child.data); break;
+      case ID.FlagDefault: track.isDefault = readUint(child.data) === 1; break;
+      // Compressed or encrypted frames cannot be copied as they are
+      case ID.ContentEncodings: track.isEncoded = true; break;
+      case ID.Video:
+        for (const field of children(child.data)) {
+          if (field.id === ID.PixelWidth) track.width = readUint(field.data);
+          if (field.id === ID.PixelHeight) track.height = readUint(field.data);
+        }
+        break;
+      case ID.Audio:
+        for (const field of children(child.data)) {
+          if (field.id === ID.SamplingFrequency) track.sampleRate = readFloat(field.data);
+          if (field.id === ID.Channels) track.channels = readUint(field.data);
+        }
+        break;
+    }
+  }
+  return track;
+}
+
+function hex(byte: number): string {
+  return byte.toString(16).padStart(2, '0');
+}
+
+function hevcCodec(hvcC: Uint8Array): string {
+  const space = ['', 'A', 'B', 'C'][hvcC[1] >> 6];
+  const tier = hvcC[1] & 0x20 ? 'H' : 'L';
+  const profile = hvcC[1] & 0x1f;
+  // Compatibility flags are written bit-reversed
+  let compatibility = 0;
+  for (let bit = 0, flags = readUint(hvcC, 2, 4); bit < 32; bit++) {
+    compatibility = compatibility * 2 + Math.floor(flags / 2 ** bit) % 2;
+  }
+  const constraints = Array.from(hvcC.subarray(6, 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+  return [`hvc1.${space}${profile}`, compatibility.toString(16).toUpperCase(), `${tier}${hvcC[12]}`, ...constraints.map(byte => hex(byte).toUpperCase())].join('.');
+}
+
+function av1Codec(av1C: Uint8Array): string {
+  const profile = av1C[1] >> 5;
+  const level = av1C[1] & 0x1f;
+  const tier = av1C[2] & 0x80 ? 'H' : 'M';
+  const bitDepth = av1C[2] & 0x40 ? (av1C[2] & 0x20 ? 12 : 10) : 8;
+  return `av01.${profile}.${String(level).padStart(2, '0')}${tier}.${String(bitDepth).padStart(2, '0')}`;
+}
+
+// AudioSpecificConfig for files that only name the profile, e.g. A_AAC/MPEG4/LC
+function aacConfig(track: MatroskaTrack): Uint8Array {
+  const objectType = AAC_OBJECT_TYPES[track.codecId.split('/').pop() ?? ''] ?? 2;
+  const rateIndex = Math.max(AAC_SAMPLE_RATES.indexOf(Math.round(track.sampleRate)), 0);
+  return Uint8Array.from([(objectType << 3) | (rateIndex >> 1), ((rateIndex & 1) << 7) | (track.channels << 3)]);
+}
+
+// dOps from the OpusHead stored in CodecPrivate: same fields, big-endian
+function opusConfig(head: Uint8Array): Uint8Array {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const channels = head[9];
+  const mappingFamily = head[18];
+  const config = new Uint8Array(11 + (mappingFamily !== 0 ? 2 + channels : 0));
+  const out = new DataView(config.buffer);
+  out.setUint8(1, channels);
+  out.setUint16(2, view.getUint16(10, true));
+  out.setUint32(4, view.getUint32(12, true));
+  out.setInt16(8, view.getInt16(16, true));
+  out.setUint8(10, mappingFamily);
+  if (mappingFamily !== 0) config.set(head.subarray(19, 21 + channels), 11);
+  return box('dOps', config);
+}
+
+/**
+ * The MP4 form of a Matroska track, or why it has none
+ */
+function mapTrack(track: MatroskaTrack): RemuxTrack | string {
+  const kind = track.type === VIDEO_TYPE ? 'video' : 'audio';
+  if (track.isEncoded) return `Its ${kind} frames are compressed or encrypted`;
+
+  const common = { id: track.number, kind, codecId: track.codecId, width: track.width, height: track.height } as const;
+  const config = track.codecPrivate;
+  // Opus is always decoded at 48 kHz
+  const sampleRate = track.codecId === 'A_OPUS' ? 48000 : Math.round(track.sampleRate);
+  const frameDuration = (samples: number) => track.defaultDuration || samples * 1e9 / sampleRate;
+
+  if (kind === 'video') {
+    const video = (codec: string, format: string, configBox: string): RemuxTrack => ({
+      ...common,
+      codec,
+      timescale: VIDEO_TIMESCALE,
+      sampleEntry: visualSampleEntry(format, track.width, track.height, box(configBox, config)),
+      frameDuration: track.defaultDuration
+    });
+    if (config.length < 4) return `Its video (${track.codecId}) has no decoder configuration`;
+    switch (track.codecId) {
+      case 'V_MPEG4/ISO/AVC': return video(`avc1.${hex(config[1])}${hex(config[2])}${hex(config[3])}`, 'avc1', 'avcC');
+      case 'V_MPEGH/ISO/HEVC': return config.length < 23 ? 'Its HEVC video has a truncated configuration' : video(hevcCodec(config), 'hvc1', 'hvcC');
+      case 'V_AV1': return video(av1Codec(config), 'av01', 'av1C');
+    }
+    return `Its video (${track.codecId}) cannot be repackaged as MP4`;
+  }
+
+  const audio = (codec: string, format: string, configBox: Uint8Array, samplesPerFrame: number): RemuxTrack => ({
+    ...common,
+    codec,
+    timescale: sampleRate,
+    sampleEntry: audioSampleEntry(format, track.channels, sampleRate, configBox),
+    frameDuration: frameDuration(samplesPerFrame)
+  });
+  if (track.codecId.startsWith('A_AAC')) {
+    const specificConfig = config.length >= 2 ? config : aacConfig(track);
+    return audio(`mp4a.40.${specificConfig[0] >> 3}`, 'mp4a', esds(track.number, 0x40, specificConfig), 1024);
+  }
+  if (track.codecId === 'A_MPEG/L3') {
+    return audio('mp4a.6B', 'mp4a', esds(track.number, 0x6b, new Uint8Array(0)), 1152);
+  }
+  if (track.codecId === 'A_OPUS' && config.length >= 19) {
+    return audio('opus', 'Opus', opusConfig(config), 960);
+  }
+  return `Its audio (${track.codecId}) cannot be repackaged as MP4`;
+}
+
+/**
+ * Reads the tracks of a Matroska file and works out its MP4 form. Null for other containers.
+ */
+export async function planRemux(file: Blob): Promise<RemuxCheck | null> {
+  const reader = new FileWindowReader(file);
+  const tracks: MatroskaTrack[] = [];
+  let timestampScale = 1000000;
+  let duration = 0;
+
+  let offset = 0;
+  while (offset < reader.size) {
+    const header = await readHeader(reader, offset);
+    if (!header) break;
+    if (offset === 0 && header.id !== ID.EBML) return null;
+    // Info and Tracks precede the first cluster
+    if (header.id === ID.Cluster) break;
+    if (header.id === ID.Segment) {
+      offset = header.dataStart;
+      continue;
+    }
+    if (header.size === UNKNOWN_SIZE) break;
+
+    if (header.id === ID.Info) {
+      for (const child of children(await reader.bytes(header.dataStart, header.size))) {
+        if (child.id === ID.TimestampScale) timestampScale = readUint(child.data);
+        if (child.id === ID.Duration) duration = readFloat(child.data);
+      }
+    } else if (header.id === ID.Tracks) {
+      for (const child of children(await reader.bytes(header.dataStart, header.size))) {
+        if (child.id === ID.TrackEntry) tracks.push(parseTrack(child.data));
+      }
+    }
+    offset = header.dataStart + header.size;
+  }
+
+  const pick = (type: number) => {
+    const candidates = tracks.filter(track => track.type === type && track.number > 0);
+    return candidates.find(track => track.isDefault) ?? candidates[0];
+  };
+  const picked = [pick(VIDEO_TYPE), pick(AUDIO_TYPE)].filter((track): track is MatroskaTrack => track !== undefined);
+  if (picked.length === 0) return { reason: 'It has no audio or video track' };
+
+  const mapped = picked.map(mapTrack);
+  const failure = mapped.find((track): track is string => typeof track === 'string');
+  if (failure) return { reason: failure };
+
+  const remuxTracks = mapped as RemuxTrack[];
+  const hasVideo = remuxTracks.some(track => track.kind === 'video');
+  return {
+    plan: {
+      tracks: remuxTracks,
+      mimeType: `${hasVideo ? 'video' : 'audio'}/mp4; codecs="${remuxTracks.map(track => track.codec).join(',')}"`,
+      duration: duration * timestampScale / 1e9,
+      timestampScale
+    }
+  };
+}
+
+interface Frame {
+  // Byte range in the file
+  offset: number;
+  size: number;
+  pts: number;
+  isKeyframe: boolean;
+}
+
+/**
+ * Frames of a block, whose first bytes are in `head`. Null for a malformed block.
+ */
+function blockFrames(head: Uint8Array, dataStart: number, blockSize: number): { track: number; relative: number; flags: number; frames: Array<{ offset: number; size: number }> } | null {
+  const trackNumber = readVint(head, 0, false);
+  if (!trackNumber || head.length < trackNumber.length + 3) return null;
+  const relative = (head[trackNumber.length] << 24 >> 16) | head[trackNumber.length + 1];
+  const flags = head[trackNumber.length + 2];
+  let position = trackNumber.length + 3;
+
+  const lacing = flags & 0x06;
+  const sizes: number[] = [];
+  if (lacing !== 0) {
+    const count = head[position++] + 1;
+    if (lacing === 0x02) {
+      // Xiph: each size is a run of bytes summed, ended by one below 255
+      for (let i = 0; i < count - 1; i++) {
+        let size = 0;
+        let byte: number;
+        do {
+          byte = head[position++];
+          if (byte === undefined) return null;
+          size += byte;
+        } while (byte === 255);
+        sizes.push(size);
+      }
+    } else if (lacing === 0x06) {
+      // EBML: the first size, then signed differences
+      let size = 0;
+      for (let i = 0; i < count - 1; i++) {
+        const vint = readVint(head, position, false);
+        if (!vint) return null;
+        position += vint.length;
+        size = i === 0 ? vint.value : size + vint.value - (2 ** (7 * vint.length - 1) - 1);
+        sizes.push(size);
+      }
+    } else {
+      // Fixed: equal sizes
+      const size = (blockSize - position) / count;
+      for (let i = 0; i < count - 1; i++) sizes.push(size);
+    }
+  }
+  const used = sizes.reduce((sum, size) => sum + size, 0);
+  sizes.push(blockSize - position - used);
+  if (sizes.some(size => !(size > 0) || !Number.isInteger(size))) return null;
+
+  let offset = dataStart + position;
+  const frames = sizes.map(size => {
+    const frame = { offset, size };
+    offset += size;
+    return frame;
+  });
+  return { track: trackNumber.value, relative, flags, frames };
+}
+
+/**
+ * Decode times for frames stored in decode order with presentation times:
+ * the same times, sorted. `nextDts` ends the last frame, when known.
+ */
+function toSamples(frames: Frame[], nextDts: number | undefined, fallbackDuration: number): Mp4Sample[] {
+  const dts = frames.map(frame => frame.pts).sort((a, b) => a - b);
+  return frames.map((frame, i) => {
+    const end = i + 1 < frames.length ? dts[i + 1] : nextDts ?? dts[i] + (i > 0 ? dts[i] - dts[i - 1] : fallbackDuration);
+    return {
+      size: frame.size,
+      dts: dts[i],
+      duration: Math.max(end - dts[i], 0),
+      compositionOffset: frame.pts - dts[i],
+      isKeyframe: frame.isKeyframe
+    };
+  });
+}
+
+/**
+ * Repackages a Matroska file as a fragmented MP4, one fragment per cluster.
+ * Null when aborted.
+ */
+export async function remuxToMp4(file: Blob, plan: RemuxPlan, options: DemuxOptions = {}): Promise<Blob | null> {
+  const reader = new FileWindowReader(file);
+  const tracks = new Map(plan.tracks.map(track => [track.id, track]));
+  const referenceTrack = plan.tracks.find(track => track.kind === 'video') ?? plan.tracks[0];
+
+  let parts: BlobPart[] = [];
+  let partCount = 0;
+  const references: SegmentReference[] = [];
+  let earliestTime: number | null = null;
+  let sequence = 0;
+
+  // Frames of the cluster being read, and of the previous one, written once the next starts
+  let cluster = new Map<number, Frame[]>();
+  let held: Map<number, Frame[]> | null = null;
+  let clusterTimestamp = 0;
+
+  const addPart = (part: BlobPart) => {
+    parts.push(part);
+    if (++partCount % PARTS_PER_BLOB === 0) parts = [new Blob(parts)];
+  };
+
+  const writeFragment = (frames: Map<number, Frame[]>, next: Map<number, Frame[]> | null) => {
+    const runs: Mp4Run[] = [];
+    const sources: Frame[][] = [];
+    for (const track of plan.tracks) {
+      const trackFrames = frames.get(track.id) ?? [];
+      if (trackFrames.length === 0) continue;
+      const following = next?.get(track.id);
+      const nextDts = following && following.length > 0 ? Math.min(...following.map(frame => frame.pts)) : undefined;
+      const fallbackDuration = Math.round(track.frameDuration * track.timescale / 1e9);
+      runs.push({ track, samples: toSamples(trackFrames, nextDts, fallbackDuration) });
+      sources.push(trackFrames);
+    }
+    if (runs.length === 0) return;
+
+    const header = fragmentHeader(++sequence, runs);
+    addPart(header);
+    let size = header.length;
+    // Frames stored back to back in the file are copied as one range
+    let rangeStart = -1;
+    let rangeEnd = -1;
+    for (const frame of sources.flat()) {
+      if (frame.offset !== rangeEnd) {
+        if (rangeStart >= 0) addPart(file.slice(rangeStart, rangeEnd));
+        rangeStart = frame.offset;
+      }
+      rangeEnd = frame.offset + frame.size;
+      size += frame.size;
+    }
+    if (rangeStart >= 0) addPart(file.slice(rangeStart, rangeEnd));
+
+    const referenceRun = runs.find(run => run.track === referenceTrack);
+    const referenceSamples = referenceRun?.samples ?? [];
+    if (earliestTime === null && referenceSamples.length > 0) {
+      earliestTime = Math.min(...referenceSamples.map(sample => sample.dts + sample.compositionOffset));
+    }
+    references.push({
+      size,
+      duration: referenceSamples.reduce((sum, sample) => sum + sample.duration, 0),
+      startsWithKeyframe: referenceSamples[0]?.isKeyframe ?? false
+    });
+  };
+
+  const endCluster = () => {
+    if (held) writeFragment(held, cluster);
+    held = cluster;
+    cluster = new Map();
+  };
+
+  const addBlock = async (dataStart: number, size: number, isKeyframe: boolean | null) => {
+    const head = await reader.bytes(dataStart, Math.min(size, BLOCK_HEADER_READ_SIZE));
+    const trackNumber = readVint(head, 0, false);
+    const track = trackNumber && tracks.get(trackNumber.value);
+    if (!track) return;
+    const block = blockFrames(head, dataStart, size);
+    if (!block) return;
+
+    // SimpleBlocks flag keyframes, BlockGroups have none of their own
+    const keyframe = track.kind === 'audio' || (isKeyframe ?? (block.flags & 0x80) !== 0);
+    const start = (clusterTimestamp + block.relative) * plan.timestampScale / 1e9;
+    const frames = cluster.get(track.id) ?? [];
+    block.frames.forEach((frame, i) => {
+      frames.push({
+        ...frame,
+        pts: Math.max(Math.round((start + i * track.frameDuration / 1e9) * track.timescale), 0),
+        isKeyframe: keyframe
+      });
+    });
+    cluster.set(track.id, frames);
+  };
+
+  let lastProgress = 0;
+  let offset = 0;
+  while (offset < reader.size) {
+    if (options.signal?.aborted) return null;
+    if (offset - lastProgress > reader.size / 100) {
+      lastProgress = offset;
+      options.onProgress?.(offset / reader.size);
+    }
+
+    const header = await readHeader(reader, offset);
+    if (!header) break;
+    if (header.id === ID.Segment || header.id === ID.Cluster) {
+      if (header.id === ID.Cluster) endCluster();
+      offset = header.dataStart;
+      continue;
+    }
+    if (header.size === UNKNOWN_SIZE) break;
+
+    switch (header.id) {
+      case ID.Timestamp:
+        clusterTimestamp = readUint(await reader.bytes(header.dataStart, header.size));
+        break;
+      case ID.SimpleBlock:
+        await addBlock(header.dataStart, header.size, null);
+        break;
+      case ID.BlockGroup: {
+        // Read the children's headers only, the Block holds a frame
+        let block: { dataStart: number; size: number } | null = null;
+        let hasReference = false;
+        const end = header.dataStart + header.size;
+        for (let childOffset = header.dataStart; childOffset < end;) {
+          const child = await readHeader(reader, childOffset);
+          if (!child || child.size === UNKNOWN_SIZE) break;
+          if (child.id === ID.Block) block = child;
+          if (child.id === ID.ReferenceBlock) hasReference = true;
+          childOffset = child.dataStart + child.size;
+        }
+        if (block) await addBlock(block.dataStart, block.size, !hasReference);
+        break;
+      }
+    }
+    offset = header.dataStart + header.size;
+  }
+  // The second call writes the last cluster, with nothing after it
+  endCluster();
+  endCluster();
+  options.onProgress?.(1);
+
+  const init = initSegment(plan.tracks, plan.duration);
+  const index = segmentIndex(referenceTrack, earliestTime ?? 0, references);
+  return new Blob([init, index, ...parts], { type: 'video/mp4' });
+}
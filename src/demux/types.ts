@@ -0,0 +1,37 @@
+import { SubtitleCue } from '../utils/subtitles';
+
+export type EmbeddedTrackKind = 'video' | 'audio' | 'subtitles';
+
+/**
+ * A stream stored in a media container
+ */
+export interface EmbeddedTrack {
+  // Track number (Matroska) or track ID (MP4)
+  id: number;
+  kind: EmbeddedTrackKind;
+  // Container codec id, e.g. 'S_TEXT/UTF8', 'A_AAC', 'tx3g' or 'mp4a'
+  codec: string;
+  // ISO 639-2 code or BCP 47 tag, 'und' when unknown
+  language: string;
+  // Title given by the muxer, may be empty
+  name: string;
+  isDefault: boolean;
+}
+
+export interface EmbeddedSubtitles {
+  track: EmbeddedTrack;
+  cues: SubtitleCue[];
+}
+
+export interface DemuxResult {
+  tracks: EmbeddedTrack[];
+  // Cues of the text subtitle tracks; image-based subtitles are listed in `tracks` only
+  subtitles: EmbeddedSubtitles[];
+}
+
+export interface DemuxOptions {
+  // Fraction (0-1) of the file scanned so far
+  onProgress?: (progress: number) => void;
+  // Stops the scan, the result is then null
+  signal?: AbortSignal;
+}
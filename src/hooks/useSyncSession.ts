@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { SyncSession, SyncSessionState } from '../sync/syncSession';
+
+/**
+ * Connects a SyncSession for the lifetime of the calling component and
+ * re-renders it whenever the session state changes. The server URL is read
+ * once, when the session is created.
+ */
+export function useSyncSession(serverUrl: string): [SyncSession, SyncSessionState] {
+  const [session] = useState(() => new SyncSession(serverUrl));
+  const state = useSyncExternalStore(session.subscribe, session.getState, session.getState);
+
+  useEffect(() => {
+    session.connect();
+    return () => session.disconnect();
+  }, [session]);
+
+  return [session, state];
+}
@@ -0,0 +1,106 @@
+/**
+ * NTP-style clock offset estimation against the sync server
+ *
+ * Every ping records the local send time (t0), the server's reply time and the
+ * local receive time (t1). Assuming a symmetric path, the server clock read
+ * `serverTime` at local time (t0 + t1) / 2. The sample with the lowest round
+ * trip among the most recent ones is the least affected by queuing delay and
+ * is used as the current estimate.
+ */
+import { MediaState } from './protocol';
+
+interface ClockSample {
+  offset: number;
+  rtt: number;
+}
+
+const MAX_SAMPLES = 8;
+const BURST_SIZE = 5;
+const BURST_INTERVAL_MS = 250;
+const RESYNC_INTERVAL_MS = 30000;
+// Replies slower than this are too skewed by queuing to be useful
+const MAX_RTT_MS = 5000;
+
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Sends a burst of pings to get an estimate quickly, then keeps refreshing it.
+   * `sendPing` receives the local send time, which the server echoes back.
+   */
+  start(sendPing: (clientTime: number) => void) {
+    this.stop();
+    for (let i = 0; i < BURST_SIZE; i++) {
+      this.timers.push(setTimeout(() => sendPing(Date.now()), i * BURST_INTERVAL_MS));
+    }
+    this.interval = setInterval(() => sendPing(Date.now()), RESYNC_INTERVAL_MS);
+  }
+
+  stop() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Records a server reply. `clientTime` is the send time echoed by the server.
+   */
+  handlePong(clientTime: number, serverTime: number, receivedAt: number = Date.now()) {
+    const rtt = receivedAt - clientTime;
+    if (rtt < 0 || rtt > MAX_RTT_MS) return;
+
+    this.samples.push({ offset: serverTime - (clientTime + receivedAt) / 2, rtt });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  reset() {
+    this.samples = [];
+  }
+
+  get isSynchronized(): boolean {
+    return this.samples.length > 0;
+  }
+
+  /**
+   * Milliseconds to add to the local clock to get server time
+   */
+  get offset(): number {
+    return this.bestSample()?.offset ?? 0;
+  }
+
+  get rtt(): number | null {
+    return this.bestSample()?.rtt ?? null;
+  }
+
+  /**
+   * Current time on the server clock, in milliseconds since the epoch
+   */
+  now(): number {
+    return Date.now() + this.offset;
+  }
+
+  private bestSample(): ClockSample | undefined {
+    let best: ClockSample | undefined;
+    for (const sample of this.samples) {
+      if (!best || sample.rtt < best.rtt) best = sample;
+    }
+    return best;
+  }
+}
+
+/**
+ * Where playback described by `mediaState` should be at `now`, given that the
+ * state was sampled at `timestamp` (both on the server clock, in ms).
+ */
+export function extrapolatePosition(mediaState: MediaState, timestamp: number, now: number): number {
+  if (!mediaState.isPlaying) return mediaState.currentTime;
+  const elapsed = Math.max(0, now - timestamp) / 1000;
+  return mediaState.currentTime + elapsed * mediaState.playbackRate;
+}
@@ -0,0 +1,183 @@
+/**
+ * One Socket.IO connection for the lifetime of the player
+ *
+ * The manager remembers which room we are in and joins it again whenever the
+ * socket reconnects; the server keeps a dropped member's seat for a grace
+ * period, so a short outage keeps our role. State changes made while offline
+ * are queued, only the latest per event, and sent once the room is rejoined.
+ * Other events are refused while offline instead of being replayed into a
+ * room we may no longer be in.
+ */
+import { io, Socket } from 'socket.io-client';
+import {
+  ClientPayload,
+  ClientToServerEvents,
+  RoomOpData,
+  RoomOpEvent,
+  ServerToClientEvents,
+  UserProfile
+} from './protocol';
+import { RoomOpSocket, RoomRequestError, requestRoomOp } from './roomClient';
+
+export type ClientEvent = Exclude<keyof ClientToServerEvents, RoomOpEvent>;
+
+/**
+ * What the client uses of a Socket.IO socket, so tests can stand in for one
+ */
+export interface MediaSyncSocket extends RoomOpSocket {
+  readonly connected: boolean;
+  // The underlying manager, which emits the reconnection events
+  readonly io: {
+    on(event: 'reconnect', listener: () => void): unknown;
+    on(event: 'reconnect_error', listener: (error: Error) => void): unknown;
+  };
+  on(event: 'connect_error', listener: (error: Error) => void): unknown;
+  // Listeners check server payloads themselves, see `validated`
+  on(event: keyof ServerToClientEvents | 'connect' | 'disconnect', listener: (data: unknown) => void): unknown;
+  emit(event: ClientEvent, data: ClientPayload<ClientEvent>): unknown;
+  disconnect(): unknown;
+}
+
+/**
+ * Events describing our current state, where only the latest value matters
+ */
+export type QueuedEvent = 'syncMedia' | 'announceMedia' | 'updateProfile';
+
+type PendingChanges = { [E in QueuedEvent]?: ClientPayload<E> };
+
+export interface RoomSession {
+  roomCode: string;
+  // Needed to get back in if the server already dropped our seat
+  password?: string;
+}
+
+export interface ConnectionListeners {
+  // The room was rejoined after a reconnect; queued changes are sent right after this returns
+  onRejoined: (data: RoomOpData<'joinRoom'>) => void;
+  onRejoinFailed: (roomCode: string, error: RoomRequestError) => void;
+}
+
+/**
+ * Opens the Socket.IO connection to a sync server, reconnecting for as long as it is kept
+ */
+export function connectSocket(serverUrl: string): MediaSyncSocket {
+  // Typed with our events, so the compiler checks it provides what MediaSyncSocket describes
+  const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(serverUrl, {
+    transports: ['websocket', 'polling'],
+    timeout: 20000,
+    reconnection: true,
+    reconnectionDelay: 1000,
+    reconnectionDelayMax: 10000,
+    reconnectionAttempts: Infinity
+  });
+  return socket;
+}
+
+export class ConnectionManager {
+  private room: RoomSession | null = null;
+  private rejoining = false;
+  // Bumped per reconnect, so an attempt overtaken by another drop gives up quietly
+  private rejoinAttempt = 0;
+  private pending: PendingChanges = {};
+
+  constructor(
+    readonly socket: MediaSyncSocket,
+    private getProfile: () => UserProfile | null,
+    private listeners: ConnectionListeners
+  ) {
+    this.socket.on('connect', () => {
+      this.restoreRoom();
+    });
+  }
+
+  /**
+   * Connected, and back in our room if we were in one
+   */
+  get isReady(): boolean {
+    return this.socket.connected && !this.rejoining;
+  }
+
+  /**
+   * Records the room to rejoin after a reconnect, null once we have left it
+   */
+  setRoom(room: RoomSession | null) {
+    this.room = room;
+    if (!room) {
+      this.pending = {};
+    }
+  }
+
+  /**
+   * Sends an event now, returning false when offline
+   */
+  emit<E extends ClientEvent>(event: E, data: ClientPayload<E>): boolean {
+    if (!this.isReady) return false;
+    this.socket.emit(event, data);
+    return true;
+  }
+
+  /**
+   * Sends a state change now, or queues it in place of an earlier one while offline.
+   * Returns false when queued.
+   */
+  emitState<E extends QueuedEvent>(event: E, data: ClientPayload<E>): boolean {
+    if (this.emit(event, data)) return true;
+    (this.pending as Partial<Record<E, ClientPayload<E>>>)[event] = data;
+    return false;
+  }
+
+  hasPending(event: QueuedEvent): boolean {
+    return event in this.pending;
+  }
+
+  /**
+   * Drops a queued change, e.g. one the room has overtaken while we were away
+   */
+  discardPending(event: QueuedEvent) {
+    delete this.pending[event];
+  }
+
+  disconnect() {
+    this.socket.disconnect();
+  }
+
+  private async restoreRoom() {
+    const room = this.room;
+    const profile = this.getProfile();
+    if (!room || !profile) {
+      this.pending = {};
+      return;
+    }
+
+    const attempt = ++this.rejoinAttempt;
+    this.rejoining = true;
+    const result = await requestRoomOp(this.socket, 'joinRoom', { roomCode: room.roomCode, profile, password: room.password });
+    if (attempt !== this.rejoinAttempt) return;
+    this.rejoining = false;
+    if (this.room !== room) return; // Left the room while rejoining
+    if (!result.ok && result.error.code === 'TIMEOUT' && !this.socket.connected) return; // Retried on the next connect
+
+    if (!result.ok) {
+      this.setRoom(null);
+      this.listeners.onRejoinFailed(room.roomCode, result.error);
+      return;
+    }
+    this.listeners.onRejoined(result.data);
+    this.flushPending();
+  }
+
+  private flushPending() {
+    const pending = this.pending;
+    this.pending = {};
+    for (const event of Object.keys(pending) as QueuedEvent[]) {
+      this.flushEvent(event, pending);
+    }
+  }
+
+  private flushEvent<E extends QueuedEvent>(event: E, pending: PendingChanges) {
+    const data = pending[event];
+    if (data) {
+      this.emitState(event, data);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Drift correction controller
+ *
+ * Small drifts are corrected by nudging the playback rate, which is inaudible
+ * and does not re-buffer. Only drifts beyond the seek threshold fall back to a
+ * hard seek.
+ */
+
+export interface DriftControllerOptions {
+  // Drift (s) below which no correction is applied
+  deadband: number;
+  // Drift (s) above which the controller seeks instead of adjusting the rate
+  seekThreshold: number;
+  // Maximum relative rate change, 0.05 = ±5%
+  maxRateAdjustment: number;
+  // Rate adjustment per second of drift
+  gain: number;
+}
+
+export type DriftCorrection =
+  | { kind: 'none'; rateFactor: 1 }
+  | { kind: 'rate'; rateFactor: number }
+  | { kind: 'seek' };
+
+export const DEFAULT_DRIFT_OPTIONS: DriftControllerOptions = {
+  deadband: 0.08,
+  seekThreshold: 1.0,
+  maxRateAdjustment: 0.05,
+  gain: 0.25
+};
+
+export class DriftController {
+  private correcting = false;
+  private readonly options: DriftControllerOptions;
+
+  constructor(options: Partial<DriftControllerOptions> = {}) {
+    this.options = { ...DEFAULT_DRIFT_OPTIONS, ...options };
+  }
+
+  /**
+   * Decides how to correct `drift` (local position minus target, in seconds).
+   * Positive drift means the local player is ahead and must slow down.
+   */
+  evaluate(drift: number, seekThreshold: number = this.options.seekThreshold): DriftCorrection {
+    const magnitude = Math.abs(drift);
+
+    if (magnitude > seekThreshold) {
+      this.correcting = false;
+      return { kind: 'seek' };
+    }
+
+    // Hysteresis: once correcting, keep going until well inside the deadband
+    // so the rate doesn't flap around the boundary
+    const stopAt = this.correcting ? this.options.deadband / 2 : this.options.deadband;
+    if (magnitude <= stopAt) {
+      this.correcting = false;
+      return { kind: 'none', rateFactor: 1 };
+    }
+
+    this.correcting = true;
+    const adjustment = Math.max(
+      -this.options.maxRateAdjustment,
+      Math.min(this.options.maxRateAdjustment, drift * this.options.gain)
+    );
+    return { kind: 'rate', rateFactor: 1 - adjustment };
+  }
+
+  reset() {
+    this.correcting = false;
+  }
+}
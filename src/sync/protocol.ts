@@ -0,0 +1,845 @@
+/**
+ * Media sync socket protocol shared by the player and the sync server
+ *
+ * Both sides parameterise Socket.IO with these event maps, so a payload change
+ * on one side is a compile error on the other. Incoming payloads are still
+ * checked at runtime with the validators below, since a peer may run an older
+ * build.
+ */
+
+export interface MediaState {
+  currentTime: number;
+  isPlaying: boolean;
+  // Speed chosen by the user, drift correction adjustments excluded
+  playbackRate: number;
+}
+
+// Playback rates browsers accept
+export const MIN_PLAYBACK_RATE = 0.0625;
+export const MAX_PLAYBACK_RATE = 16;
+
+/**
+ * MANUAL: sync button, AUTO: play/pause/seek and periodic sync,
+ * ROOM_STATE: authoritative state sent by the server
+ */
+export type SyncType = 'MANUAL' | 'AUTO' | 'ROOM_STATE';
+
+/**
+ * host: owns the room settings and roles, cohost: may control playback,
+ * viewer: may control playback unless the host has locked it
+ */
+export type RoomRole = 'host' | 'cohost' | 'viewer';
+
+export interface RoomSettings {
+  // When set, only the host and co-hosts may broadcast playback state
+  hostControlsPlayback: boolean;
+  // When set, nobody new can join; members who drop out can still rejoin
+  locked: boolean;
+  // When set, playback pauses while a member is buffering and resumes for everyone after a countdown
+  waitForBuffering: boolean;
+}
+
+/**
+ * What each member reports about their player, shown in the roster
+ */
+export interface PresenceStatus {
+  // Seconds, null without media
+  position: number | null;
+  isPlaying: boolean;
+  isBuffering: boolean;
+  // Seconds ahead (+) or behind (-) the member being followed, null when not following
+  drift: number | null;
+  // Round trip to the server (ms)
+  rtt: number | null;
+  playbackRate: number;
+  // Language (or label) of the subtitles shown, null when off
+  subtitleLanguage: string | null;
+}
+
+export interface MemberPresence extends PresenceStatus {
+  // Server-clock time (ms) the status was received
+  updatedAt: number;
+}
+
+/**
+ * Who a member is. `clientId` is generated once per browser and kept in
+ * localStorage, so it survives reloads and reconnects; it is the `userId`
+ * other members see. `clientSecret` is generated alongside it but only ever
+ * sent to the server, which requires it before a client id already in a room
+ * can take over that membership.
+ */
+export interface UserProfile {
+  clientId: string;
+  clientSecret: string;
+  displayName: string;
+}
+
+export const MAX_DISPLAY_NAME_LENGTH = 32;
+
+/**
+ * Collapses whitespace in a user-entered name, null if nothing usable is left
+ */
+export function normalizeDisplayName(name: string): string | null {
+  const normalized = name.replace(/\s+/g, ' ').trim().slice(0, MAX_DISPLAY_NAME_LENGTH).trim();
+  return normalized.length > 0 ? normalized : null;
+}
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  displayName: string;
+  text: string;
+  // Server-clock time (ms) the message was received
+  sentAt: number;
+  // Sender's media position (s) when sending, null without media
+  mediaTime: number | null;
+}
+
+export const REACTION_EMOJIS = ['👍', '😂', '😮', '😢', '❤️', '🔥'] as const;
+
+export type ReactionEmoji = typeof REACTION_EMOJIS[number];
+
+/**
+ * An emoji reaction anchored to a position in the room's media
+ */
+export interface Reaction {
+  id: string;
+  userId: string;
+  displayName: string;
+  emoji: ReactionEmoji;
+  // Media position (s) the reaction belongs to
+  mediaTime: number;
+  // Server-clock time (ms) the reaction was received
+  sentAt: number;
+}
+
+export interface RoomMemberInfo {
+  userId: string;
+  displayName: string;
+  role: RoomRole;
+  media: MediaIdentity | null;
+  presence: MemberPresence | null;
+}
+
+export type PlaybackAction = 'play' | 'pause' | 'seek';
+
+/**
+ * Playback state as of `timestamp` (server clock, ms)
+ */
+export interface PlaybackSnapshot {
+  mediaState: MediaState;
+  timestamp: number;
+  // Room-wide playback version, bumped by the server for every accepted change
+  version: number;
+}
+
+/**
+ * Identifies the media a peer has loaded, see utils/mediaFingerprint
+ */
+export interface MediaIdentity {
+  name: string;
+  // Bytes
+  size: number;
+  // Seconds
+  duration: number;
+  // Truncated SHA-256 of the size and sampled byte ranges, or of the URL for remote media
+  hash: string;
+  // Where everyone can stream remote media from, absent for local files
+  url?: string;
+}
+
+export const MAX_MEDIA_URL_LENGTH = 2048;
+
+/**
+ * Whether `url` is an http(s) address peers may be asked to stream from
+ */
+export function isMediaUrl(url: string): boolean {
+  if (url.length > MAX_MEDIA_URL_LENGTH) return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * An entry of a room's shared queue; each peer plays its own copy of the file
+ */
+export interface QueueEntry {
+  id: string;
+  media: MediaIdentity;
+  // User id of the member who added it
+  addedBy: string;
+}
+
+export interface RoomQueue {
+  entries: QueueEntry[];
+  // Entry the room is watching, null when it watches something not in the queue
+  currentId: string | null;
+}
+
+export const MAX_QUEUE_LENGTH = 100;
+
+export const EMPTY_QUEUE: RoomQueue = { entries: [], currentId: null };
+
+// Containers may report slightly different durations for the same file
+const DURATION_TOLERANCE = 0.5;
+
+/**
+ * Whether two peers loaded the same media. File names are ignored, copies may be renamed.
+ */
+export function isSameMedia(a: MediaIdentity, b: MediaIdentity): boolean {
+  return a.size === b.size &&
+    a.hash === b.hash &&
+    Math.abs(a.duration - b.duration) <= DURATION_TOLERANCE;
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  hostControlsPlayback: false,
+  locked: false,
+  waitForBuffering: true
+};
+
+export const MAX_ROOM_PASSWORD_LENGTH = 64;
+
+/**
+ * Whether a member with `role` may broadcast playback state under `settings`
+ */
+export function canControlPlayback(role: RoomRole, settings: RoomSettings): boolean {
+  return !settings.hostControlsPlayback || role !== 'viewer';
+}
+
+// Client -> server payloads
+
+export interface CreateRoomRequest {
+  profile: UserProfile;
+  // Required from everyone joining later, omitted for an open room
+  password?: string;
+}
+
+export interface JoinRoomRequest {
+  roomCode: string;
+  profile: UserProfile;
+  password?: string;
+}
+
+export interface LeaveRoomRequest {
+  roomCode: string;
+}
+
+export interface SyncMediaRequest {
+  roomId: string;
+  mediaState: MediaState;
+  syncType: Exclude<SyncType, 'ROOM_STATE'>;
+  // Server-clock time (ms) at which mediaState was sampled
+  timestamp: number;
+  // Increases with every change the sender broadcasts
+  seq: number;
+}
+
+export interface UpdateRoomSettingsRequest {
+  settings: Partial<RoomSettings>;
+}
+
+export interface SetRoleRequest {
+  userId: string;
+  // Host is handed over with transferHost
+  role: Exclude<RoomRole, 'host'>;
+}
+
+export interface TransferHostRequest {
+  userId: string;
+}
+
+export interface PlaybackRequest {
+  action: PlaybackAction;
+  // Requested position for 'seek', the requester's position otherwise
+  currentTime: number;
+}
+
+export interface AnnounceMediaRequest {
+  media: MediaIdentity;
+}
+
+export type RoomStateRequest = Record<string, never>;
+
+export interface PresenceUpdateRequest {
+  presence: PresenceStatus;
+}
+
+export interface UpdateProfileRequest {
+  displayName: string;
+}
+
+export interface SendChatMessageRequest {
+  text: string;
+  mediaTime: number | null;
+}
+
+export interface ChatTypingRequest {
+  isTyping: boolean;
+}
+
+export interface SendReactionRequest {
+  emoji: ReactionEmoji;
+  mediaTime: number;
+}
+
+export interface RemoveMemberRequest {
+  userId: string;
+  // Banned members cannot rejoin the room
+  ban: boolean;
+}
+
+// Queue changes are allowed to members who may control playback
+
+export interface QueueAddRequest {
+  media: MediaIdentity;
+}
+
+export interface QueueEntryRequest {
+  entryId: string;
+}
+
+export interface QueueMoveRequest {
+  entryId: string;
+  // Position the entry moves to, 0 being the front of the queue
+  index: number;
+}
+
+export interface StartTogetherRequest {
+  // Position and speed everyone starts from
+  currentTime: number;
+  playbackRate: number;
+}
+
+export interface ClockPingRequest {
+  // Sender's local time (ms), echoed back in the pong
+  clientTime: number;
+}
+
+// Room operations: createRoom, joinRoom and leaveRoom are answered through a
+// Socket.IO acknowledgement instead of a separate event
+
+/**
+ * Machine-readable reasons a room operation failed
+ */
+export type RoomErrorCode =
+  | 'INVALID_REQUEST'
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_FULL'
+  | 'PASSWORD_REQUIRED'
+  | 'WRONG_PASSWORD'
+  | 'ROOM_LOCKED'
+  | 'BANNED'
+  | 'CLIENT_ID_IN_USE'
+  | 'NOT_IN_ROOM'
+  | 'RATE_LIMITED'
+  | 'SERVER_BUSY';
+
+export interface RoomOpError {
+  code: RoomErrorCode;
+  message: string;
+}
+
+export type RoomOpResult<T> = { ok: true; data: T } | { ok: false; error: RoomOpError };
+
+export type Ack<T> = (result: RoomOpResult<T>) => void;
+
+// Server -> client payloads
+
+export interface RoomCreatedPayload {
+  roomCode: string;
+  userCount: number;
+  role: RoomRole;
+  settings: RoomSettings;
+  members: RoomMemberInfo[];
+}
+
+export interface RoomJoinedPayload {
+  roomCode: string;
+  userCount: number;
+  role: RoomRole;
+  settings: RoomSettings;
+  members: RoomMemberInfo[];
+}
+
+export interface RoomLeftPayload {
+  roomCode: string;
+}
+
+export interface UserPresencePayload {
+  userId: string;
+  displayName: string;
+  userCount: number;
+}
+
+export interface RoomErrorPayload {
+  message: string;
+}
+
+export interface RemovedFromRoomPayload {
+  roomCode: string;
+  banned: boolean;
+}
+
+/**
+ * Sent to the whole room, sender included: `senderId` and `seq` identify the
+ * origin, so the sender learns which version its change became
+ */
+export interface SyncMediaBroadcast {
+  mediaState: MediaState;
+  senderId: string;
+  senderName: string;
+  syncType: SyncType;
+  timestamp: number;
+  seq: number;
+  version: number;
+}
+
+/**
+ * buffering: paused while members buffer, resume: playing again after the countdown,
+ * countdown: a member started playback for everyone with "Start together"
+ */
+export type PlaybackChangeReason = 'buffering' | 'resume' | 'countdown';
+
+/**
+ * Playback changed by the server rather than a member. A snapshot that is
+ * playing with a timestamp in the future starts at that instant.
+ */
+export interface PlaybackChangedPayload {
+  playback: PlaybackSnapshot;
+  reason: PlaybackChangeReason;
+}
+
+export interface WaitingForMembersPayload {
+  // Members whose buffering holds the room's playback, empty once nobody is waited for
+  userIds: string[];
+}
+
+export interface RoomSettingsChangedPayload {
+  settings: RoomSettings;
+}
+
+export interface RoleChangedPayload {
+  userId: string;
+  role: RoomRole;
+}
+
+export interface PlaybackRequestedPayload extends PlaybackRequest {
+  userId: string;
+}
+
+export interface QueueUpdatedPayload {
+  queue: RoomQueue;
+}
+
+export interface RoomStatePayload {
+  // Null until someone in the room has broadcast playback state
+  playback: PlaybackSnapshot | null;
+  media: MediaIdentity | null;
+}
+
+export interface MediaAnnouncedPayload {
+  userId: string;
+  media: MediaIdentity;
+}
+
+export interface PresenceUpdatedPayload {
+  userId: string;
+  presence: MemberPresence;
+}
+
+export interface ProfileUpdatedPayload {
+  userId: string;
+  displayName: string;
+}
+
+export interface ChatHistoryPayload {
+  // Oldest first
+  messages: ChatMessage[];
+}
+
+export interface ChatTypingPayload {
+  userId: string;
+  displayName: string;
+  isTyping: boolean;
+}
+
+export interface ReactionHistoryPayload {
+  // Reactions on the room's current media, also sent empty when the media changes
+  reactions: Reaction[];
+}
+
+export interface ClockPongPayload {
+  clientTime: number;
+  serverTime: number;
+}
+
+export interface ClientToServerEvents {
+  createRoom: (data: CreateRoomRequest, ack: Ack<RoomCreatedPayload>) => void;
+  joinRoom: (data: JoinRoomRequest, ack: Ack<RoomJoinedPayload>) => void;
+  leaveRoom: (data: LeaveRoomRequest, ack: Ack<RoomLeftPayload>) => void;
+  syncMedia: (data: SyncMediaRequest) => void;
+  updateRoomSettings: (data: UpdateRoomSettingsRequest) => void;
+  setRole: (data: SetRoleRequest) => void;
+  transferHost: (data: TransferHostRequest) => void;
+  playbackRequest: (data: PlaybackRequest) => void;
+  announceMedia: (data: AnnounceMediaRequest) => void;
+  requestRoomState: (data: RoomStateRequest) => void;
+  presenceUpdate: (data: PresenceUpdateRequest) => void;
+  updateProfile: (data: UpdateProfileRequest) => void;
+  sendChatMessage: (data: SendChatMessageRequest) => void;
+  chatTyping: (data: ChatTypingRequest) => void;
+  sendReaction: (data: SendReactionRequest) => void;
+  removeMember: (data: RemoveMemberRequest) => void;
+  clockPing: (data: ClockPingRequest) => void;
+  startTogether: (data: StartTogetherRequest) => void;
+  queueAdd: (data: QueueAddRequest) => void;
+  queueRemove: (data: QueueEntryRequest) => void;
+  queueMove: (data: QueueMoveRequest) => void;
+  // Makes the entry the room's media
+  queuePlay: (data: QueueEntryRequest) => void;
+  // The entry finished playing; the room moves on unless it already has
+  queueAdvance: (data: QueueEntryRequest) => void;
+}
+
+export interface ServerToClientEvents {
+  // Sent when the server ends our membership, e.g. when the same client joins from another tab
+  roomLeft: (data: RoomLeftPayload) => void;
+  userJoined: (data: UserPresencePayload) => void;
+  userLeft: (data: UserPresencePayload) => void;
+  roomError: (data: RoomErrorPayload) => void;
+  removedFromRoom: (data: RemovedFromRoomPayload) => void;
+  syncMedia: (data: SyncMediaBroadcast) => void;
+  playbackChanged: (data: PlaybackChangedPayload) => void;
+  waitingForMembers: (data: WaitingForMembersPayload) => void;
+  queueUpdated: (data: QueueUpdatedPayload) => void;
+  roomSettingsChanged: (data: RoomSettingsChangedPayload) => void;
+  roleChanged: (data: RoleChangedPayload) => void;
+  playbackRequested: (data: PlaybackRequestedPayload) => void;
+  roomState: (data: RoomStatePayload) => void;
+  mediaAnnounced: (data: MediaAnnouncedPayload) => void;
+  presenceUpdated: (data: PresenceUpdatedPayload) => void;
+  profileUpdated: (data: ProfileUpdatedPayload) => void;
+  chatMessage: (data: ChatMessage) => void;
+  chatHistory: (data: ChatHistoryPayload) => void;
+  chatTyping: (data: ChatTypingPayload) => void;
+  reaction: (data: Reaction) => void;
+  reactionHistory: (data: ReactionHistoryPayload) => void;
+  clockPong: (data: ClockPongPayload) => void;
+}
+
+type PayloadOf<F> = F extends (data: infer P, ...rest: never[]) => void ? P : never;
+type AckDataOf<F> = F extends (data: never, ack: Ack<infer T>) => void ? T : never;
+
+export type ClientPayload<E extends keyof ClientToServerEvents> = PayloadOf<ClientToServerEvents[E]>;
+export type ServerPayload<E extends keyof ServerToClientEvents> = PayloadOf<ServerToClientEvents[E]>;
+
+export type RoomOpEvent = 'createRoom' | 'joinRoom' | 'leaveRoom';
+export type RoomOpData<E extends RoomOpEvent> = AckDataOf<ClientToServerEvents[E]>;
+
+// Runtime validation
+
+type Guard<T> = (value: unknown) => value is T;
+type ValidatorMap<Events> = { [E in keyof Events]: Guard<PayloadOf<Events[E]>> };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isCount = (value: unknown): value is number =>
+  isFiniteNumber(value) && Number.isInteger(value) && value >= 0;
+
+const isPlaybackRate = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= MIN_PLAYBACK_RATE && value <= MAX_PLAYBACK_RATE;
+
+export const isMediaState = (value: unknown): value is MediaState =>
+  isRecord(value) &&
+  isFiniteNumber(value.currentTime) &&
+  value.currentTime >= 0 &&
+  typeof value.isPlaying === 'boolean' &&
+  isPlaybackRate(value.playbackRate);
+
+const isDisplayName = (value: unknown): value is string =>
+  isString(value) && normalizeDisplayName(value) === value;
+
+const isUserProfile = (value: unknown): value is UserProfile =>
+  isRecord(value) &&
+  isString(value.clientId) &&
+  /^[A-Za-z0-9_-]{8,64}$/.test(value.clientId) &&
+  isString(value.clientSecret) &&
+  /^[A-Za-z0-9_-]{16,64}$/.test(value.clientSecret) &&
+  isDisplayName(value.displayName);
+
+const isSyncType = (value: unknown): value is SyncType =>
+  value === 'MANUAL' || value === 'AUTO' || value === 'ROOM_STATE';
+
+const isRoomRole = (value: unknown): value is RoomRole =>
+  value === 'host' || value === 'cohost' || value === 'viewer';
+
+const isRoomSettings = (value: unknown): value is RoomSettings =>
+  isRecord(value) &&
+  typeof value.hostControlsPlayback === 'boolean' &&
+  typeof value.locked === 'boolean' &&
+  typeof value.waitForBuffering === 'boolean';
+
+const isOptionalBoolean = (value: unknown): value is boolean | undefined =>
+  value === undefined || typeof value === 'boolean';
+
+const isOptionalPassword = (value: unknown): value is string | undefined =>
+  value === undefined || (isString(value) && value.length > 0 && value.length <= MAX_ROOM_PASSWORD_LENGTH);
+
+const ROOM_ERROR_CODES: readonly RoomErrorCode[] = [
+  'INVALID_REQUEST',
+  'ROOM_NOT_FOUND',
+  'ROOM_FULL',
+  'PASSWORD_REQUIRED',
+  'WRONG_PASSWORD',
+  'ROOM_LOCKED',
+  'BANNED',
+  'CLIENT_ID_IN_USE',
+  'NOT_IN_ROOM',
+  'RATE_LIMITED',
+  'SERVER_BUSY'
+];
+
+const isRoomErrorCode = (value: unknown): value is RoomErrorCode =>
+  (ROOM_ERROR_CODES as readonly unknown[]).includes(value);
+
+const isRoomOpResult = <T>(isData: Guard<T>): Guard<RoomOpResult<T>> =>
+  (value): value is RoomOpResult<T> =>
+    isRecord(value) && (value.ok === true
+      ? isData(value.data)
+      : value.ok === false && isRecord(value.error) && isRoomErrorCode(value.error.code) && isString(value.error.message));
+
+const isPlaybackSnapshot = (value: unknown): value is PlaybackSnapshot =>
+  isRecord(value) && isMediaState(value.mediaState) && isFiniteNumber(value.timestamp) && isCount(value.version);
+
+const isMediaIdentity = (value: unknown): value is MediaIdentity =>
+  isRecord(value) &&
+  isString(value.name) &&
+  value.name.length <= 512 &&
+  isCount(value.size) &&
+  isFiniteNumber(value.duration) &&
+  value.duration >= 0 &&
+  isString(value.hash) &&
+  /^[0-9a-f]{32}$/.test(value.hash) &&
+  (value.url === undefined || (isString(value.url) && isMediaUrl(value.url)));
+
+const isQueueEntry = (value: unknown): value is QueueEntry =>
+  isRecord(value) && isString(value.id) && isMediaIdentity(value.media) && isString(value.addedBy);
+
+const isRoomQueue = (value: unknown): value is RoomQueue =>
+  isRecord(value) &&
+  Array.isArray(value.entries) &&
+  value.entries.length <= MAX_QUEUE_LENGTH &&
+  value.entries.every(isQueueEntry) &&
+  (value.currentId === null || isString(value.currentId));
+
+const isQueueEntryRequest = (value: unknown): value is QueueEntryRequest =>
+  isRecord(value) && isString(value.entryId);
+
+const isNullableNumber = (value: unknown): value is number | null =>
+  value === null || isFiniteNumber(value);
+
+const isPresenceStatus = (value: unknown): value is PresenceStatus =>
+  isRecord(value) &&
+  isNullableNumber(value.position) &&
+  typeof value.isPlaying === 'boolean' &&
+  typeof value.isBuffering === 'boolean' &&
+  isNullableNumber(value.drift) &&
+  isNullableNumber(value.rtt) &&
+  isPlaybackRate(value.playbackRate) &&
+  (value.subtitleLanguage === null || (isString(value.subtitleLanguage) && value.subtitleLanguage.length <= 64));
+
+const isMemberPresence = (value: unknown): value is MemberPresence =>
+  isRecord(value) && isFiniteNumber(value.updatedAt) && isPresenceStatus(value);
+
+const isMemberInfo = (value: unknown): value is RoomMemberInfo =>
+  isRecord(value) &&
+  isString(value.userId) &&
+  isDisplayName(value.displayName) &&
+  isRoomRole(value.role) &&
+  (value.media === null || isMediaIdentity(value.media)) &&
+  (value.presence === null || isMemberPresence(value.presence));
+
+const isMediaTime = (value: unknown): value is number | null =>
+  value === null || (isFiniteNumber(value) && value >= 0);
+
+const isChatText = (value: unknown): value is string =>
+  isString(value) && value.trim().length > 0 && value.length <= MAX_CHAT_MESSAGE_LENGTH;
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.userId) &&
+  isDisplayName(value.displayName) &&
+  isChatText(value.text) &&
+  isFiniteNumber(value.sentAt) &&
+  isMediaTime(value.mediaTime);
+
+const isReactionEmoji = (value: unknown): value is ReactionEmoji =>
+  (REACTION_EMOJIS as readonly unknown[]).includes(value);
+
+const isReaction = (value: unknown): value is Reaction =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.userId) &&
+  isDisplayName(value.displayName) &&
+  isReactionEmoji(value.emoji) &&
+  isFiniteNumber(value.mediaTime) &&
+  value.mediaTime >= 0 &&
+  isFiniteNumber(value.sentAt);
+
+const isPlaybackRequest = (value: unknown): value is PlaybackRequest =>
+  isRecord(value) &&
+  (value.action === 'play' || value.action === 'pause' || value.action === 'seek') &&
+  isFiniteNumber(value.currentTime) &&
+  value.currentTime >= 0;
+
+const hasRoomCode = (value: unknown): value is { roomCode: string } =>
+  isRecord(value) && isString(value.roomCode) && value.roomCode.trim().length > 0;
+
+const isUserPresence = (value: unknown): value is UserPresencePayload =>
+  isRecord(value) && isString(value.userId) && isDisplayName(value.displayName) && isCount(value.userCount);
+
+const isRoomMembership = (value: unknown): value is RoomJoinedPayload =>
+  isRecord(value) &&
+  isString(value.roomCode) &&
+  isCount(value.userCount) &&
+  isRoomRole(value.role) &&
+  isRoomSettings(value.settings) &&
+  Array.isArray(value.members) &&
+  value.members.every(isMemberInfo);
+
+export const clientEventValidators: ValidatorMap<ClientToServerEvents> = {
+  createRoom: (value): value is CreateRoomRequest =>
+    isRecord(value) && isUserProfile(value.profile) && isOptionalPassword(value.password),
+  joinRoom: (value): value is JoinRoomRequest =>
+    isRecord(value) && isUserProfile(value.profile) && isOptionalPassword(value.password) && hasRoomCode(value),
+  leaveRoom: hasRoomCode,
+  syncMedia: (value): value is SyncMediaRequest =>
+    isRecord(value) &&
+    isString(value.roomId) &&
+    isMediaState(value.mediaState) &&
+    (value.syncType === 'MANUAL' || value.syncType === 'AUTO') &&
+    isFiniteNumber(value.timestamp) &&
+    isCount(value.seq),
+  updateRoomSettings: (value): value is UpdateRoomSettingsRequest =>
+    isRecord(value) &&
+    isRecord(value.settings) &&
+    isOptionalBoolean(value.settings.hostControlsPlayback) &&
+    isOptionalBoolean(value.settings.locked) &&
+    isOptionalBoolean(value.settings.waitForBuffering),
+  setRole: (value): value is SetRoleRequest =>
+    isRecord(value) && isString(value.userId) && (value.role === 'cohost' || value.role === 'viewer'),
+  transferHost: (value): value is TransferHostRequest => isRecord(value) && isString(value.userId),
+  playbackRequest: isPlaybackRequest,
+  announceMedia: (value): value is AnnounceMediaRequest => isRecord(value) && isMediaIdentity(value.media),
+  requestRoomState: (value): value is RoomStateRequest => isRecord(value),
+  presenceUpdate: (value): value is PresenceUpdateRequest => isRecord(value) && isPresenceStatus(value.presence),
+  updateProfile: (value): value is UpdateProfileRequest => isRecord(value) && isDisplayName(value.displayName),
+  sendChatMessage: (value): value is SendChatMessageRequest =>
+    isRecord(value) && isChatText(value.text) && isMediaTime(value.mediaTime),
+  chatTyping: (value): value is ChatTypingRequest => isRecord(value) && typeof value.isTyping === 'boolean',
+  sendReaction: (value): value is SendReactionRequest =>
+    isRecord(value) && isReactionEmoji(value.emoji) && isFiniteNumber(value.mediaTime) && value.mediaTime >= 0,
+  removeMember: (value): value is RemoveMemberRequest =>
+    isRecord(value) && isString(value.userId) && typeof value.ban === 'boolean',
+  clockPing: (value): value is ClockPingRequest => isRecord(value) && isFiniteNumber(value.clientTime),
+  startTogether: (value): value is StartTogetherRequest =>
+    isRecord(value) && isFiniteNumber(value.currentTime) && value.currentTime >= 0 && isPlaybackRate(value.playbackRate),
+  queueAdd: (value): value is QueueAddRequest => isRecord(value) && isMediaIdentity(value.media),
+  queueRemove: isQueueEntryRequest,
+  queueMove: (value): value is QueueMoveRequest => isRecord(value) && isString(value.entryId) && isCount(value.index),
+  queuePlay: isQueueEntryRequest,
+  queueAdvance: isQueueEntryRequest
+};
+
+export const serverEventValidators: ValidatorMap<ServerToClientEvents> = {
+  roomLeft: hasRoomCode,
+  userJoined: isUserPresence,
+  userLeft: isUserPresence,
+  roomError: (value): value is RoomErrorPayload => isRecord(value) && isString(value.message),
+  removedFromRoom: (value): value is RemovedFromRoomPayload =>
+    isRecord(value) && typeof value.banned === 'boolean' && hasRoomCode(value),
+  syncMedia: (value): value is SyncMediaBroadcast =>
+    isRecord(value) &&
+    isMediaState(value.mediaState) &&
+    isString(value.senderId) &&
+    isDisplayName(value.senderName) &&
+    isSyncType(value.syncType) &&
+    isFiniteNumber(value.timestamp) &&
+    isCount(value.seq) &&
+    isCount(value.version),
+  playbackChanged: (value): value is PlaybackChangedPayload =>
+    isRecord(value) &&
+    isPlaybackSnapshot(value.playback) &&
+    (value.reason === 'buffering' || value.reason === 'resume' || value.reason === 'countdown'),
+  waitingForMembers: (value): value is WaitingForMembersPayload =>
+    isRecord(value) && Array.isArray(value.userIds) && value.userIds.every(isString),
+  queueUpdated: (value): value is QueueUpdatedPayload => isRecord(value) && isRoomQueue(value.queue),
+  roomSettingsChanged: (value): value is RoomSettingsChangedPayload =>
+    isRecord(value) && isRoomSettings(value.settings),
+  roleChanged: (value): value is RoleChangedPayload =>
+    isRecord(value) && isString(value.userId) && isRoomRole(value.role),
+  playbackRequested: (value): value is PlaybackRequestedPayload =>
+    isRecord(value) && isString(value.userId) && isPlaybackRequest(value),
+  roomState: (value): value is RoomStatePayload =>
+    isRecord(value) &&
+    (value.playback === null || isPlaybackSnapshot(value.playback)) &&
+    (value.media === null || isMediaIdentity(value.media)),
+  mediaAnnounced: (value): value is MediaAnnouncedPayload =>
+    isRecord(value) && isString(value.userId) && isMediaIdentity(value.media),
+  presenceUpdated: (value): value is PresenceUpdatedPayload =>
+    isRecord(value) && isString(value.userId) && isMemberPresence(value.presence),
+  profileUpdated: (value): value is ProfileUpdatedPayload =>
+    isRecord(value) && isString(value.userId) && isDisplayName(value.displayName),
+  chatMessage: isChatMessage,
+  chatHistory: (value): value is ChatHistoryPayload =>
+    isRecord(value) && Array.isArray(value.messages) && value.messages.every(isChatMessage),
+  chatTyping: (value): value is ChatTypingPayload =>
+    isRecord(value) &&
+    isString(value.userId) &&
+    isDisplayName(value.displayName) &&
+    typeof value.isTyping === 'boolean',
+  reaction: isReaction,
+  reactionHistory: (value): value is ReactionHistoryPayload =>
+    isRecord(value) && Array.isArray(value.reactions) && value.reactions.every(isReaction),
+  clockPong: (value): value is ClockPongPayload =>
+    isRecord(value) && isFiniteNumber(value.clientTime) && isFiniteNumber(value.serverTime)
+};
+
+export const roomOpResultValidators: { [E in RoomOpEvent]: Guard<RoomOpResult<RoomOpData<E>>> } = {
+  createRoom: isRoomOpResult(isRoomMembership),
+  joinRoom: isRoomOpResult(isRoomMembership),
+  leaveRoom: isRoomOpResult(hasRoomCode)
+};
+
+/**
+ * Wraps an event handler so it only runs for payloads that pass the event's validator.
+ * Invalid payloads are logged and passed to `onInvalid` instead.
+ */
+export function validated<Events, E extends keyof Events & string>(
+  validators: ValidatorMap<Events>,
+  event: E,
+  handler: (data: PayloadOf<Events[E]>) => void,
+  onInvalid?: (data: unknown) => void
+): (data: unknown) => void {
+  return (data: unknown) => {
+    if (!validators[event](data)) {
+      console.warn(`Ignoring invalid '${event}' payload:`, data);
+      onInvalid?.(data);
+      return;
+    }
+    handler(data);
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Room operations (create, join, leave) over Socket.IO acknowledgements
+ *
+ * Each request waits a bounded time for its acknowledgement and is retried
+ * when the answer was lost or the server asked us to back off. Failures come
+ * back as machine-readable codes instead of exceptions.
+ */
+import {
+  ClientPayload,
+  RoomOpData,
+  RoomOpError,
+  RoomOpEvent,
+  roomOpResultValidators
+} from './protocol';
+
+/**
+ * The part of a Socket.IO socket that sends requests awaiting an acknowledgement
+ */
+export interface RoomOpSocket {
+  // Rejects when no acknowledgement arrives within `ms`
+  timeout(ms: number): {
+    emitWithAck(event: RoomOpEvent, data: ClientPayload<RoomOpEvent>): Promise<unknown>;
+  };
+}
+
+/**
+ * Server errors, plus failures detected on the client
+ */
+export type RoomRequestError =
+  | RoomOpError
+  | { code: 'OFFLINE' | 'TIMEOUT' | 'INVALID_RESPONSE'; message: string };
+
+export type RoomRequestResult<E extends RoomOpEvent> =
+  | { ok: true; data: RoomOpData<E> }
+  | { ok: false; error: RoomRequestError };
+
+export interface RoomRequestOptions {
+  // How long to wait for each acknowledgement (ms)
+  timeoutMs: number;
+  // Further attempts after a retryable failure
+  retries: number;
+  // Delay before the first retry (ms), grows linearly with each attempt
+  retryDelayMs: number;
+}
+
+export const DEFAULT_ROOM_REQUEST_OPTIONS: RoomRequestOptions = {
+  timeoutMs: 5000,
+  retries: 2,
+  retryDelayMs: 1000
+};
+
+/**
+ * Whether a failed request may succeed if sent again unchanged
+ */
+export function isRetryableRoomError(error: RoomRequestError): boolean {
+  return error.code === 'TIMEOUT' || error.code === 'SERVER_BUSY';
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function attempt<E extends RoomOpEvent>(
+  socket: RoomOpSocket,
+  event: E,
+  data: ClientPayload<E>,
+  timeoutMs: number
+): Promise<RoomRequestResult<E>> {
+  let response: unknown;
+  try {
+    // The response is validated below
+    response = await socket.timeout(timeoutMs).emitWithAck(event, data);
+  } catch {
+    return { ok: false, error: { code: 'TIMEOUT', message: 'The server did not respond in time' } };
+  }
+
+  if (!roomOpResultValidators[event](response)) {
+    console.warn(`Ignoring invalid '${event}' response:`, response);
+    return { ok: false, error: { code: 'INVALID_RESPONSE', message: 'The server sent an invalid response' } };
+  }
+  return response;
+}
+
+export async function requestRoomOp<E extends RoomOpEvent>(
+  socket: RoomOpSocket,
+  event: E,
+  data: ClientPayload<E>,
+  options: Partial<RoomRequestOptions> = {}
+): Promise<RoomRequestResult<E>> {
+  const { timeoutMs, retries, retryDelayMs } = { ...DEFAULT_ROOM_REQUEST_OPTIONS, ...options };
+
+  let result = await attempt(socket, event, data, timeoutMs);
+  for (let retry = 1; retry <= retries && !result.ok && isRetryableRoomError(result.error); retry++) {
+    console.log(`Retrying '${event}' (${retry}/${retries}) after ${result.error.code}`);
+    await delay(retryDelayMs * retry);
+    result = await attempt(socket, event, data, timeoutMs);
+  }
+  return result;
+}
@@ -0,0 +1,547 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MediaSyncSocket } from './connectionManager';
+import { DEFAULT_ROOM_SETTINGS, PlaybackSnapshot, RoomJoinedPayload, SyncMediaBroadcast } from './protocol';
+import { SyncPlayer, SyncSession } from './syncSession';
+import { testMedia, testProfile } from './testFixtures';
+
+// Each listener expects its own event's payload
+type Handler = (data: never) => void;
+
+/**
+ * Stands in for a Socket.IO client socket. Requests with an acknowledgement
+ * are answered by `respond`, everything else sent is recorded in `sent`.
+ */
+class FakeSocket implements MediaSyncSocket {
+  connected = false;
+  sent: Array<{ event: string; data: unknown }> = [];
+  respond: (event: string, data: unknown) => unknown = () => undefined;
+  private handlers = new Map<string, Handler[]>();
+
+  // Events of the underlying manager, such as 'reconnect'
+  io = { on: () => undefined };
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+    return this;
+  }
+
+  emit(event: string, data: unknown) {
+    this.sent.push({ event, data });
+    return this;
+  }
+
+  timeout() {
+    return {
+      emitWithAck: async (event: string, data: unknown) => {
+        this.sent.push({ event, data });
+        return this.respond(event, data);
+      }
+    };
+  }
+
+  disconnect() {
+    this.drop();
+  }
+
+  // Server side of the connection
+
+  open() {
+    this.connected = true;
+    this.receive('connect');
+  }
+
+  drop() {
+    this.connected = false;
+    this.receive('disconnect');
+  }
+
+  receive(event: string, data?: unknown) {
+    // Unchecked like anything arriving over the wire, the session validates it
+    this.handlers.get(event)?.forEach(handler => handler(data as never));
+  }
+
+  sentOf(event: string): unknown[] {
+    return this.sent.filter(entry => entry.event === event).map(entry => entry.data);
+  }
+}
+
+/**
+ * A player with its media loaded, firing the events Video.js fires for each change
+ */
+class FakePlayer implements SyncPlayer {
+  time = 0;
+  isPaused = true;
+  rate = 1;
+  private handlers = new Map<string, Array<() => void>>();
+
+  currentTime(seconds?: number): number {
+    if (seconds !== undefined) {
+      this.time = seconds;
+      this.fire('seeked');
+    }
+    return this.time;
+  }
+
+  paused(): boolean {
+    return this.isPaused;
+  }
+
+  seeking(): boolean {
+    return false;
+  }
+
+  readyState(): number {
+    return 4;
+  }
+
+  play(): Promise<void> {
+    this.isPaused = false;
+    this.fire('play');
+    return Promise.resolve();
+  }
+
+  pause() {
+    this.isPaused = true;
+    this.fire('pause');
+  }
+
+  playbackRate(rate?: number): number {
+    if (rate !== undefined) {
+      this.rate = rate;
+      this.fire('ratechange');
+    }
+    return this.rate;
+  }
+
+  on(event: string | string[], handler: () => void) {
+    for (const name of [event].flat()) {
+      this.handlers.set(name, [...(this.handlers.get(name) ?? []), handler]);
+    }
+  }
+
+  off(event: string | string[], handler: () => void) {
+    for (const name of [event].flat()) {
+      this.handlers.set(name, (this.handlers.get(name) ?? []).filter(existing => existing !== handler));
+    }
+  }
+
+  fire(event: string) {
+    this.handlers.get(event)?.forEach(handler => handler());
+  }
+}
+
+const profile = testProfile('alice');
+
+const joined: RoomJoinedPayload = {
+  roomCode: 'ABC234',
+  userCount: 2,
+  role: 'viewer',
+  settings: DEFAULT_ROOM_SETTINGS,
+  members: [
+    { userId: 'client-bob', displayName: 'bob', role: 'host', media: null, presence: null },
+    { userId: profile.clientId, displayName: 'alice', role: 'viewer', media: null, presence: null }
+  ]
+};
+
+// Lets acknowledgements and the handlers awaiting them run
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('SyncSession', () => {
+  let socket: FakeSocket;
+  let session: SyncSession;
+  let notices: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000000);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    socket = new FakeSocket();
+    socket.respond = (event) => event === 'joinRoom' ? { ok: true, data: joined } : undefined;
+    session = new SyncSession('http://sync.test', () => socket);
+    session.setProfile(profile);
+    notices = [];
+    session.on('notice', message => notices.push(message));
+    session.connect();
+  });
+
+  afterEach(() => {
+    session.disconnect();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('refuses room requests until connected', async () => {
+    const result = await session.joinRoom('ABC234');
+
+    expect(result).toEqual({ ok: false, error: { code: 'OFFLINE', message: 'Not connected to server' } });
+    expect(socket.sentOf('joinRoom')).toEqual([]);
+  });
+
+  it('joins a room with the profile and takes on the membership', async () => {
+    socket.open();
+    const result = await session.joinRoom('ABC234', 'popcorn');
+
+    expect(result.ok).toBe(true);
+    expect(socket.sentOf('joinRoom')).toEqual([{ roomCode: 'ABC234', profile, password: 'popcorn' }]);
+    expect(session.getState()).toMatchObject({
+      isConnected: true,
+      roomCode: 'ABC234',
+      role: 'viewer',
+      members: joined.members
+    });
+  });
+
+  it('rejoins after a dropped connection and then sends changes made offline', async () => {
+    socket.open();
+    await session.joinRoom('ABC234', 'popcorn');
+    socket.drop();
+
+    session.updateDisplayName('alice (phone)');
+    expect(socket.sentOf('updateProfile')).toEqual([]);
+
+    socket.open();
+    await settle();
+
+    const renamed = { ...profile, displayName: 'alice (phone)' };
+    expect(socket.sentOf('joinRoom')).toEqual([
+      { roomCode: 'ABC234', profile, password: 'popcorn' },
+      { roomCode: 'ABC234', profile: renamed, password: 'popcorn' }
+    ]);
+    expect(socket.sentOf('updateProfile')).toEqual([{ displayName: 'alice (phone)' }]);
+    expect(notices).toContain('Rejoined room ABC234');
+  });
+
+  it('leaves the room locally when the rejoin is refused', async () => {
+    socket.open();
+    await session.joinRoom('ABC234');
+    socket.drop();
+
+    socket.respond = () => ({ ok: false, error: { code: 'BANNED', message: 'You are banned from room ABC234' } });
+    socket.open();
+    await settle();
+
+    expect(session.getState().roomCode).toBeNull();
+    expect(notices).toContain('Could not rejoin room ABC234: You are banned from room ABC234');
+  });
+
+  it('tracks members joining and ignores invalid payloads', async () => {
+    socket.open();
+    await session.joinRoom('ABC234');
+
+    socket.receive('userJoined', { userId: 'client-carol', displayName: 'carol', userCount: 3 });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    socket.receive('userJoined', { userId: 42 });
+
+    expect(session.getState().members.map(member => member.displayName)).toEqual(['bob', 'alice', 'carol']);
+  });
+
+  it('clears the room when removed from it', async () => {
+    socket.open();
+    await session.joinRoom('ABC234');
+
+    socket.receive('removedFromRoom', { roomCode: 'ABC234', banned: true });
+
+    expect(session.getState()).toMatchObject({ roomCode: null, role: null, members: [] });
+    expect(notices).toContain('You were banned from room ABC234');
+  });
+
+  it('keeps as many reactions as the server does', async () => {
+    socket.open();
+    await session.joinRoom('ABC234');
+    const reaction = (i: number) => ({
+      id: `reaction-${i}`,
+      userId: 'client-bob',
+      displayName: 'bob',
+      emoji: '👍',
+      mediaTime: i,
+      sentAt: 1000000
+    });
+
+    socket.receive('reactionHistory', { reactions: Array.from({ length: 2000 }, (_, i) => reaction(i)) });
+    socket.receive('reaction', reaction(2000));
+
+    const { reactions } = session.getState();
+    expect(reactions).toHaveLength(2000);
+    expect(reactions[0].id).toBe('reaction-1');
+    expect(reactions[1999].id).toBe('reaction-2000');
+  });
+
+  describe('late joiner hydration', () => {
+    let player: FakePlayer;
+
+    // Room playing from 100 s since two seconds ago
+    const playing: PlaybackSnapshot = {
+      mediaState: { currentTime: 100, isPlaying: true, playbackRate: 1 },
+      timestamp: 1000000 - 2000,
+      version: 3
+    };
+
+    beforeEach(() => {
+      player = new FakePlayer();
+      session.attachPlayer(player);
+      socket.open();
+    });
+
+    it('catches up with the room state sent after the join', async () => {
+      session.setLocalMedia(testMedia);
+      await session.joinRoom('ABC234');
+
+      socket.receive('roomState', { playback: playing, media: testMedia });
+
+      expect(player.time).toBeCloseTo(102);
+      expect(player.paused()).toBe(false);
+      expect(session.getState().roomStateMedia).toEqual(testMedia);
+      // Applying it is not a change of ours
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(socket.sentOf('syncMedia')).toEqual([]);
+    });
+
+    it('asks for the room state again once its media is loaded', async () => {
+      await session.joinRoom('ABC234');
+      socket.receive('roomState', { playback: playing, media: testMedia });
+
+      expect(player.paused()).toBe(true);
+      expect(notices).toContain(`Load "${testMedia.name}" to catch up with the room`);
+
+      session.setLocalMedia(testMedia);
+      expect(socket.sentOf('announceMedia')).toEqual([{ media: testMedia }]);
+      expect(socket.sentOf('requestRoomState')).toEqual([{}]);
+
+      socket.receive('roomState', { playback: playing, media: testMedia });
+      expect(player.time).toBeCloseTo(102);
+      expect(player.paused()).toBe(false);
+    });
+
+    it('does not apply a room state it is already at', async () => {
+      session.setLocalMedia(testMedia);
+      await session.joinRoom('ABC234');
+      socket.receive('roomState', { playback: playing, media: testMedia });
+      player.time = 50;
+
+      socket.receive('roomState', { playback: playing, media: testMedia });
+
+      expect(player.time).toBe(50);
+    });
+  });
+
+  describe('remote playback', () => {
+    let player: FakePlayer;
+
+    // A change bob broadcast just now, as the server relays it
+    const fromBob = (patch: Partial<SyncMediaBroadcast>): SyncMediaBroadcast => ({
+      mediaState: { currentTime: 100, isPlaying: true, playbackRate: 1 },
+      senderId: 'client-bob',
+      senderName: 'bob',
+      syncType: 'AUTO',
+      timestamp: Date.now(),
+      seq: 1,
+      version: 1,
+      ...patch
+    });
+
+    beforeEach(async () => {
+      player = new FakePlayer();
+      session.attachPlayer(player);
+      session.setLocalMedia(testMedia);
+      socket.open();
+      await session.joinRoom('ABC234');
+    });
+
+    describe('applying changes', () => {
+      it('follows a member to where they are now, without echoing it', async () => {
+        socket.receive('syncMedia', fromBob({ timestamp: Date.now() - 1500 }));
+
+        expect(player.time).toBeCloseTo(101.5);
+        expect(player.paused()).toBe(false);
+        expect(notices).toContain('bob played at 1:40');
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(socket.sentOf('syncMedia')).toEqual([]);
+        expect(socket.sentOf('playbackRequest')).toEqual([]);
+      });
+
+      it('pauses and changes speed with the member who did', () => {
+        socket.receive('syncMedia', fromBob({ version: 1 }));
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 100, isPlaying: true, playbackRate: 1.5 }, version: 2 }));
+
+        expect(player.rate).toBe(1.5);
+        expect(notices).toContain('bob set the speed to 1.5x');
+
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 130, isPlaying: false, playbackRate: 1.5 }, version: 3 }));
+        expect(player.paused()).toBe(true);
+        expect(player.time).toBe(130);
+        expect(notices).toContain('bob paused at 2:10');
+      });
+
+      it('ignores versions the room has moved past', () => {
+        socket.receive('syncMedia', fromBob({ version: 5 }));
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 20, isPlaying: false, playbackRate: 1 }, version: 5 }));
+        socket.receive('playbackChanged', {
+          playback: { mediaState: { currentTime: 20, isPlaying: false, playbackRate: 1 }, timestamp: Date.now(), version: 4 },
+          reason: 'buffering'
+        });
+
+        expect(player.paused()).toBe(false);
+        expect(player.time).toBeCloseTo(100);
+      });
+    });
+
+    describe('drift correction', () => {
+      // A second later, puts the local player `drift` seconds off where bob's playback is by then
+      const driftBy = (drift: number) => {
+        vi.advanceTimersByTime(1000);
+        player.time = 100 + (Date.now() - startedAt) / 1000 + drift;
+        player.fire('timeupdate');
+      };
+      let startedAt: number;
+
+      beforeEach(() => {
+        startedAt = Date.now();
+        socket.receive('syncMedia', fromBob({}));
+      });
+
+      it('nudges the playback rate while slightly off', () => {
+        driftBy(-0.5);
+        expect(player.rate).toBeCloseTo(1.05);
+        expect(session.getState().driftStatus).toEqual({ drift: expect.closeTo(-0.5), rateFactor: expect.closeTo(1.05) });
+
+        driftBy(0.2);
+        expect(player.rate).toBeCloseTo(0.95);
+
+        driftBy(0);
+        expect(player.rate).toBe(1);
+        // Corrections are not speed changes of ours, the periodic sync reports the room's speed
+        expect(socket.sentOf('syncMedia')).toEqual([
+          expect.objectContaining({ mediaState: expect.objectContaining({ playbackRate: 1 }), syncType: 'AUTO' })
+        ]);
+      });
+
+      it('seeks when too far off to catch up smoothly', () => {
+        driftBy(-4);
+
+        expect(player.time).toBeCloseTo(101);
+        expect(player.rate).toBe(1);
+        expect(session.getState().driftStatus).toEqual({ drift: 0, rateFactor: 1 });
+      });
+
+      it('seeks on smaller drift for a member\'s explicit sync', () => {
+        player.time = 99.5;
+        socket.receive('syncMedia', fromBob({ version: 2 }));
+        expect(player.time).toBe(99.5);
+
+        socket.receive('syncMedia', fromBob({ syncType: 'MANUAL', version: 3 }));
+        expect(player.time).toBeCloseTo(100);
+        expect(notices).toContain('bob synced everyone to 1:40');
+      });
+    });
+
+    describe('own changes', () => {
+      // Plays locally and lets the change go out, returning what was broadcast
+      const playLocally = async () => {
+        player.time = 10;
+        await player.play();
+        await vi.advanceTimersByTimeAsync(100);
+        const sent = socket.sentOf('syncMedia') as Array<{ mediaState: SyncMediaBroadcast['mediaState']; seq: number }>;
+        expect(sent).toHaveLength(1);
+        return sent[0];
+      };
+
+      // The server relaying our own broadcast back to us
+      const echo = (broadcast: { mediaState: SyncMediaBroadcast['mediaState']; seq: number }, version: number) =>
+        fromBob({ ...broadcast, senderId: profile.clientId, senderName: 'alice', timestamp: Date.now(), version });
+
+      it('ignores its own change coming back', async () => {
+        const broadcast = await playLocally();
+        player.time = 12;
+
+        socket.receive('syncMedia', echo(broadcast, 1));
+
+        expect(player.time).toBe(12);
+        expect(player.paused()).toBe(false);
+        expect(notices).toEqual([]);
+
+        // Nothing left unconfirmed that would hold up the room's next change
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 60, isPlaying: false, playbackRate: 1 }, version: 2 }));
+        expect(player.paused()).toBe(true);
+      });
+
+      it('drops a change that crossed its own on the way to the server', async () => {
+        const broadcast = await playLocally();
+
+        // Sent by bob before ours reached the server, so the room is past it once ours is echoed
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 60, isPlaying: false, playbackRate: 1 }, version: 1 }));
+        socket.receive('syncMedia', echo(broadcast, 2));
+
+        expect(player.paused()).toBe(false);
+        expect(player.time).toBe(10);
+      });
+
+      it('applies newer changes once its own is confirmed', async () => {
+        const broadcast = await playLocally();
+        socket.receive('syncMedia', echo(broadcast, 2));
+
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 60, isPlaying: false, playbackRate: 1 }, version: 2 }));
+        expect(player.paused()).toBe(false);
+
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 60, isPlaying: false, playbackRate: 1 }, version: 3 }));
+        expect(player.paused()).toBe(true);
+        expect(player.time).toBe(60);
+      });
+    });
+
+    describe('scheduled starts', () => {
+      it('holds at the start position until a countdown ends, then plays', async () => {
+        const startAt = Date.now() + 3000;
+        socket.receive('playbackChanged', {
+          playback: { mediaState: { currentTime: 30, isPlaying: true, playbackRate: 1 }, timestamp: startAt, version: 1 },
+          reason: 'countdown'
+        });
+
+        expect(player.time).toBe(30);
+        expect(player.paused()).toBe(true);
+        expect(session.getState().countdownTo).toBe(startAt);
+
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(player.paused()).toBe(false);
+        expect(session.getState().countdownTo).toBeNull();
+      });
+
+      it('resumes together after buffering at the announced instant', async () => {
+        player.isPaused = false;
+        const resumeAt = Date.now() + 3000;
+        socket.receive('playbackChanged', {
+          playback: { mediaState: { currentTime: 42, isPlaying: true, playbackRate: 1 }, timestamp: resumeAt, version: 1 },
+          reason: 'resume'
+        });
+
+        expect(player.paused()).toBe(true);
+        await vi.advanceTimersByTimeAsync(2999);
+        expect(player.paused()).toBe(true);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(player.paused()).toBe(false);
+      });
+
+      it('plays a member\'s change stamped in the future right away', () => {
+        socket.receive('syncMedia', fromBob({ timestamp: Date.now() + 60000 }));
+
+        expect(player.paused()).toBe(false);
+        expect(player.time).toBeCloseTo(100);
+        expect(session.getState().countdownTo).toBeNull();
+      });
+
+      it('cancels a countdown overtaken by a member\'s change', async () => {
+        socket.receive('playbackChanged', {
+          playback: { mediaState: { currentTime: 30, isPlaying: true, playbackRate: 1 }, timestamp: Date.now() + 3000, version: 1 },
+          reason: 'countdown'
+        });
+        socket.receive('syncMedia', fromBob({ mediaState: { currentTime: 60, isPlaying: false, playbackRate: 1 }, version: 2 }));
+
+        expect(session.getState().countdownTo).toBeNull();
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(player.paused()).toBe(true);
+        expect(player.time).toBe(60);
+      });
+    });
+  });
+});
@@ -0,0 +1,1273 @@
+/**
+ * Watch-party sync session
+ *
+ * Owns the connection, the room membership and the playback sync logic,
+ * independently of any UI framework. State is published as immutable
+ * snapshots through `getState`/`subscribe` (the shape React's
+ * useSyncExternalStore expects, see src/hooks/useSyncSession.ts); one-off
+ * happenings such as notices and live reactions are events. The player is
+ * anything implementing `SyncPlayer`, a Video.js player does.
+ */
+import { ClockSync, extrapolatePosition } from './clock';
+import { ClientEvent, ConnectionManager, MediaSyncSocket, connectSocket } from './connectionManager';
+import { DriftController } from './driftCorrection';
+import {
+  ChatMessage,
+  ClientPayload,
+  DEFAULT_ROOM_SETTINGS,
+  EMPTY_QUEUE,
+  MediaIdentity,
+  MediaState,
+  PlaybackAction,
+  PlaybackRequestedPayload,
+  PlaybackSnapshot,
+  Reaction,
+  ReactionEmoji,
+  RoomMemberInfo,
+  RoomOpData,
+  RoomQueue,
+  RoomRole,
+  RoomSettings,
+  SyncType,
+  UserProfile,
+  canControlPlayback,
+  isSameMedia,
+  serverEventValidators,
+  validated
+} from './protocol';
+import { RoomRequestResult, requestRoomOp } from './roomClient';
+import { formatTime } from '../utils/formatTime';
+
+/**
+ * The subset of the Video.js player API the session drives
+ */
+export interface SyncPlayer {
+  currentTime(seconds?: number): number | undefined;
+  paused(): boolean;
+  seeking(): boolean;
+  readyState(): number;
+  play(): Promise<unknown> | undefined;
+  pause(): void;
+  playbackRate(rate?: number): number | undefined;
+  on(event: string | string[], handler: () => void): void;
+  off(event: string | string[], handler: () => void): void;
+}
+
+export interface TypingMember {
+  displayName: string;
+  // Local time (ms) after which the indicator is dropped if not refreshed
+  expiresAt: number;
+}
+
+export interface DriftStatus {
+  drift: number;
+  rateFactor: number;
+}
+
+export interface ClockStatus {
+  offset: number;
+  rtt: number | null;
+}
+
+export interface SyncSessionState {
+  isConnected: boolean;
+  clockStatus: ClockStatus | null;
+  profile: UserProfile | null;
+  roomCode: string | null;
+  role: RoomRole | null;
+  settings: RoomSettings;
+  members: RoomMemberInfo[];
+  // Room media as reported by the server, used until a controlling member announces theirs
+  roomStateMedia: MediaIdentity | null;
+  // Identity of the loaded media, known once its metadata has loaded
+  localMedia: MediaIdentity | null;
+  queue: RoomQueue;
+  playbackRequests: PlaybackRequestedPayload[];
+  chatMessages: ChatMessage[];
+  // User id -> typing member
+  typingMembers: Record<string, TypingMember>;
+  reactions: Reaction[];
+  driftStatus: DriftStatus | null;
+  // Members whose buffering holds the room's playback
+  waitingFor: string[];
+  // Server time (ms) at which the room starts playing, while counting down to it
+  countdownTo: number | null;
+  // Remote playback changes are being applied to the player
+  isReceivingSync: boolean;
+  autoSyncEnabled: boolean;
+}
+
+export type NoticeType = 'success' | 'error';
+
+export interface SyncSessionEvents {
+  // Something the user should be told about
+  notice: (message: string, type: NoticeType) => void;
+  // A reaction someone just sent, as opposed to ones from the history
+  reaction: (reaction: Reaction) => void;
+  // The socket (re)connected
+  connected: () => void;
+}
+
+// Typing state is re-sent this often while typing, receivers expire it a little later
+export const TYPING_REFRESH_MS = 3000;
+
+// Drift (s) beyond which a received sync hard-seeks; smaller drifts are corrected via playbackRate
+const SEEK_THRESHOLDS: Record<SyncType, number> = {
+  MANUAL: 0.3,
+  AUTO: 1.0,
+  ROOM_STATE: 1.0
+};
+
+const PRESENCE_INTERVAL_MS = 2000;
+// Matches the server's history, older messages are dropped
+const CHAT_HISTORY_LIMIT = 100;
+const REACTION_HISTORY_LIMIT = 2000;
+/**
+ * Something the local user did to the player; rate changes are synced but
+ * cannot be requested from the host
+ */
+type LocalChange = PlaybackAction | 'rate';
+
+// Local changes are coalesced for this long before being broadcast (ms)
+const LOCAL_CHANGE_DEBOUNCE_MS: Record<LocalChange, number> = { play: 100, pause: 100, seek: 200, rate: 100 };
+// Minimum spacing of automatic broadcasts, and the interval of the periodic one during playback (ms)
+const MIN_AUTO_SYNC_INTERVAL_MS = 500;
+const PERIODIC_SYNC_INTERVAL_MS = 10000;
+// How close (s) the position after a seeked event must be to a remote seek's target to count as its result
+const SEEK_MATCH_TOLERANCE = 0.5;
+
+const OFFLINE = { ok: false, error: { code: 'OFFLINE', message: 'Not connected to server' } } as const;
+
+const INITIAL_STATE: SyncSessionState = {
+  isConnected: false,
+  clockStatus: null,
+  profile: null,
+  roomCode: null,
+  role: null,
+  settings: DEFAULT_ROOM_SETTINGS,
+  members: [],
+  roomStateMedia: null,
+  localMedia: null,
+  queue: EMPTY_QUEUE,
+  playbackRequests: [],
+  chatMessages: [],
+  typingMembers: {},
+  reactions: [],
+  driftStatus: null,
+  waitingFor: [],
+  countdownTo: null,
+  isReceivingSync: false,
+  autoSyncEnabled: true
+};
+
+// Room-scoped parts of the state, cleared when we leave a room
+const EMPTY_ROOM: Partial<SyncSessionState> = {
+  roomCode: null,
+  role: null,
+  settings: DEFAULT_ROOM_SETTINGS,
+  members: [],
+  roomStateMedia: null,
+  queue: EMPTY_QUEUE,
+  playbackRequests: [],
+  chatMessages: [],
+  typingMembers: {},
+  reactions: [],
+  driftStatus: null,
+  waitingFor: [],
+  countdownTo: null
+};
+
+/**
+ * Drops `userId` and any expired entries from the typing indicators
+ */
+function withoutTyping(typing: Record<string, TypingMember>, userId: string): Record<string, TypingMember> {
+  const now = Date.now();
+  return Object.fromEntries(
+    Object.entries(typing).filter(([id, member]) => id !== userId && member.expiresAt > now)
+  );
+}
+
+// Video.js reports undefined before a source is loaded
+const positionOf = (player: SyncPlayer) => player.currentTime() ?? 0;
+const rateOf = (player: SyncPlayer) => player.playbackRate() ?? 1;
+
+type Listeners = { [E in keyof SyncSessionEvents]: Set<SyncSessionEvents[E]> };
+
+/**
+ * Player events caused by applying remote state, each consumed by the event it
+ * causes so it is not broadcast back to the room
+ */
+interface ExpectedEvents {
+  play: boolean;
+  pause: boolean;
+  // Target of the pending remote seek
+  seekTo: number | null;
+}
+
+const NO_EXPECTED_EVENTS: ExpectedEvents = { play: false, pause: false, seekTo: null };
+
+export class SyncSession {
+  private state: SyncSessionState = INITIAL_STATE;
+  private stateListeners = new Set<() => void>();
+  private listeners: Listeners = { notice: new Set(), reaction: new Set(), connected: new Set() };
+
+  private connection: ConnectionManager | null = null;
+  private readonly clockSync = new ClockSync();
+  private readonly driftController = new DriftController();
+  private player: SyncPlayer | null = null;
+  private detachPlayerListeners: (() => void) | null = null;
+  private presenceInterval: ReturnType<typeof setInterval> | null = null;
+  private localChangeTimeout: ReturnType<typeof setTimeout> | null = null;
+  private scheduledStart: ReturnType<typeof setTimeout> | null = null;
+  private lastAutoSync = 0;
+  private expectedEvents: ExpectedEvents = NO_EXPECTED_EVENTS;
+  // Sequence number of our latest broadcast, and of the one the room has not echoed back yet
+  private syncSeq = 0;
+  private unconfirmedSeq: number | null = null;
+  // Room playback version the player currently reflects, older states are discarded
+  private playbackVersion = 0;
+  // Last state received from the room, extrapolated on every timeupdate to measure drift
+  private syncTarget: PlaybackSnapshot | null = null;
+  private drift: number | null = null;
+  private isBuffering = false;
+  private subtitleLanguage: string | null = null;
+  // User-selected playback rate, and the rate last applied by drift correction
+  private baseRate = 1;
+  private appliedRate = 1;
+  // Set when a rejoin resends our offline playback change, so the room state sent with the rejoin is not applied
+  private skipRoomState = false;
+
+  /**
+   * @param createSocket Opens the connection to `serverUrl`; tests pass a fake socket
+   */
+  constructor(
+    private readonly serverUrl: string,
+    private readonly createSocket: (serverUrl: string) => MediaSyncSocket = connectSocket
+  ) {}
+
+  getState = (): SyncSessionState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  on<E extends keyof SyncSessionEvents>(event: E, listener: SyncSessionEvents[E]): () => void {
+    const listeners = this.listeners[event] as Set<SyncSessionEvents[E]>;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether the local user may drive the room's playback
+   */
+  get canControl(): boolean {
+    const { roomCode, role, settings } = this.state;
+    return !roomCode || !role || canControlPlayback(role, settings);
+  }
+
+  /**
+   * Server time (ms) as estimated from the local clock
+   */
+  now = (): number => this.clockSync.now();
+
+  connect() {
+    if (this.connection) return;
+
+    const connection = new ConnectionManager(this.createSocket(this.serverUrl), () => this.state.profile, {
+      onRejoined: (data) => this.handleRejoined(data),
+      onRejoinFailed: (roomCode, error) => {
+        console.error('Rejoin failed:', error);
+        this.resetRoom();
+        this.notice(`Could not rejoin room ${roomCode}: ${error.message}`, 'error');
+      }
+    });
+    this.connection = connection;
+    this.registerHandlers(connection);
+  }
+
+  disconnect() {
+    this.clockSync.stop();
+    this.stopPresence();
+    this.clearLocalChange();
+    this.connection?.disconnect();
+    this.connection = null;
+    this.setState({ ...EMPTY_ROOM, isConnected: false });
+  }
+
+  setProfile(profile: UserProfile) {
+    this.setState({ profile });
+  }
+
+  /**
+   * Renames the local user and tells the room
+   */
+  updateDisplayName(displayName: string) {
+    const { profile, roomCode } = this.state;
+    if (!profile || displayName === profile.displayName) return;
+
+    this.setState({ profile: { ...profile, displayName } });
+    if (roomCode) {
+      this.connection?.emitState('updateProfile', { displayName });
+    }
+  }
+
+  setAutoSync(enabled: boolean) {
+    this.setState({ autoSyncEnabled: enabled });
+    if (!enabled) {
+      this.releaseSyncTarget();
+    }
+  }
+
+  // Room membership
+
+  async createRoom(password?: string): Promise<RoomRequestResult<'createRoom'>> {
+    const connection = this.connection;
+    const profile = this.state.profile;
+    if (!connection?.isReady || !profile) return OFFLINE;
+
+    const result = await requestRoomOp(connection.socket, 'createRoom', { profile, password });
+    if (result.ok) {
+      this.enterRoom(result.data, true, password);
+    }
+    return result;
+  }
+
+  async joinRoom(roomCode: string, password?: string): Promise<RoomRequestResult<'joinRoom'>> {
+    const connection = this.connection;
+    const profile = this.state.profile;
+    if (!connection?.isReady || !profile) return OFFLINE;
+
+    const result = await requestRoomOp(connection.socket, 'joinRoom', { roomCode, profile, password });
+    if (result.ok) {
+      this.enterRoom(result.data, false, password);
+    }
+    return result;
+  }
+
+  /**
+   * Leaves the current room. Offline, the room is left locally and the server
+   * drops our seat once the reconnect grace period is over.
+   */
+  async leaveRoom(): Promise<RoomRequestResult<'leaveRoom'>> {
+    const connection = this.connection;
+    const roomCode = this.state.roomCode;
+    if (!connection || !roomCode) {
+      return { ok: false, error: { code: 'NOT_IN_ROOM', message: 'Not in a room' } };
+    }
+    if (!connection.isReady) {
+      this.resetRoom();
+      return { ok: true, data: { roomCode } };
+    }
+
+    const result = await requestRoomOp(connection.socket, 'leaveRoom', { roomCode });
+    // NOT_IN_ROOM: the server already dropped us, e.g. after a reconnect
+    if (result.ok || result.error.code === 'NOT_IN_ROOM') {
+      this.resetRoom();
+    }
+    return result;
+  }
+
+  // Room commands, refused while offline since the room may look different once we are back
+
+  updateSettings(settings: Partial<RoomSettings>): boolean {
+    return this.command('updateRoomSettings', { settings });
+  }
+
+  removeMember(userId: string, ban: boolean): boolean {
+    return this.command('removeMember', { userId, ban });
+  }
+
+  setRole(userId: string, role: Exclude<RoomRole, 'host'>): boolean {
+    return this.command('setRole', { userId, role });
+  }
+
+  transferHost(userId: string): boolean {
+    return this.command('transferHost', { userId });
+  }
+
+  dismissPlaybackRequest(request: PlaybackRequestedPayload) {
+    this.setState({ playbackRequests: this.state.playbackRequests.filter(item => item !== request) });
+  }
+
+  // Queue
+
+  addToQueue(media: MediaIdentity): boolean {
+    return this.command('queueAdd', { media });
+  }
+
+  removeFromQueue(entryId: string): boolean {
+    return this.command('queueRemove', { entryId });
+  }
+
+  moveInQueue(entryId: string, index: number): boolean {
+    return this.command('queueMove', { entryId, index });
+  }
+
+  playQueueEntry(entryId: string): boolean {
+    return this.command('queuePlay', { entryId });
+  }
+
+  // Chat and reactions
+
+  sendChatMessage(text: string): boolean {
+    const player = this.loadedPlayer();
+    return this.command('sendChatMessage', { text, mediaTime: player ? positionOf(player) : null });
+  }
+
+  setTyping(isTyping: boolean) {
+    this.command('chatTyping', { isTyping });
+  }
+
+  sendReaction(emoji: ReactionEmoji) {
+    const player = this.loadedPlayer();
+    if (!player) return;
+    this.command('sendReaction', { emoji, mediaTime: positionOf(player) });
+  }
+
+  // Media and player
+
+  /**
+   * Shows the room which subtitles we are watching with, null when they are off
+   */
+  setSubtitleLanguage(language: string | null) {
+    if (this.subtitleLanguage === language) return;
+    this.subtitleLanguage = language;
+    this.sendPresence();
+  }
+
+  /**
+   * Tells the room which media is loaded locally and catches up with it
+   */
+  setLocalMedia(media: MediaIdentity | null) {
+    this.setState({ localMedia: media });
+    // Freshly loaded media is not at any room version yet
+    this.playbackVersion = 0;
+    if (media && this.state.roomCode) {
+      this.connection?.emitState('announceMedia', { media });
+      this.connection?.emit('requestRoomState', {});
+    }
+  }
+
+  attachPlayer(player: SyncPlayer) {
+    this.detachPlayer();
+    this.player = player;
+
+    const handlers: [string | string[], () => void][] = [
+      ['play', () => this.handlePlayerEvent('play')],
+      ['pause', () => this.handlePlayerEvent('pause')],
+      ['seeked', () => this.handlePlayerEvent('seek')],
+      ['timeupdate', () => this.handleTimeUpdate()],
+      ['ended', () => this.handleEnded()],
+      ['ratechange', () => this.handleRateChange()],
+      ['waiting', () => this.setBuffering(true)],
+      [['playing', 'canplay'], () => this.setBuffering(false)]
+    ];
+    for (const [event, handler] of handlers) {
+      player.on(event, handler);
+    }
+    this.detachPlayerListeners = () => {
+      for (const [event, handler] of handlers) {
+        player.off(event, handler);
+      }
+    };
+  }
+
+  detachPlayer() {
+    this.detachPlayerListeners?.();
+    this.detachPlayerListeners = null;
+    this.player = null;
+    this.clearLocalChange();
+    this.clearExpectedEvents();
+    this.releaseSyncTarget();
+    this.baseRate = 1;
+    this.appliedRate = 1;
+    this.isBuffering = false;
+  }
+
+  /**
+   * Broadcasts the local playback state to the room. Returns false when it was
+   * queued because we are offline.
+   */
+  syncNow(): boolean {
+    return this.broadcastPlayback('MANUAL');
+  }
+
+  /**
+   * Whether "Start together" can be used: the instant it schedules is only
+   * shared once our clock offset to the server has been measured
+   */
+  get canStartTogether(): boolean {
+    return !!this.state.roomCode && !!this.state.localMedia && this.state.clockStatus?.rtt != null && this.canControl;
+  }
+
+  /**
+   * Has the whole room start playing from our position at a shared instant a
+   * few seconds from now. Returns false when offline.
+   */
+  startTogether(): boolean {
+    const player = this.loadedPlayer();
+    if (!player || !this.canStartTogether) return false;
+    return this.command('startTogether', { currentTime: positionOf(player), playbackRate: this.baseRate });
+  }
+
+  // State plumbing
+
+  private setState(patch: Partial<SyncSessionState>) {
+    this.state = { ...this.state, ...patch };
+    for (const listener of this.stateListeners) {
+      listener();
+    }
+  }
+
+  private emit<E extends keyof SyncSessionEvents>(event: E, ...args: Parameters<SyncSessionEvents[E]>) {
+    for (const listener of this.listeners[event] as Set<(...args: Parameters<SyncSessionEvents[E]>) => void>) {
+      listener(...args);
+    }
+  }
+
+  private notice(message: string, type: NoticeType) {
+    this.emit('notice', message, type);
+  }
+
+  private command<E extends ClientEvent>(event: E, data: ClientPayload<E>): boolean {
+    return this.connection?.emit(event, data) ?? false;
+  }
+
+  // The player, once its media's metadata has loaded
+  private loadedPlayer(): SyncPlayer | null {
+    return this.player && this.player.readyState() >= 1 ? this.player : null;
+  }
+
+  private localMediaState(): MediaState | null {
+    const player = this.player;
+    if (!player) return null;
+    return { currentTime: positionOf(player), isPlaying: !player.paused(), playbackRate: this.baseRate };
+  }
+
+  /**
+   * Sends the local playback state to the room, tagged with the next sequence
+   * number. Returns false when it was queued because we are offline.
+   */
+  private broadcastPlayback(syncType: Exclude<SyncType, 'ROOM_STATE'>): boolean {
+    const roomCode = this.state.roomCode;
+    const mediaState = this.localMediaState();
+    if (!mediaState || !this.connection || !roomCode) return false;
+
+    const seq = ++this.syncSeq;
+    // States from the room arriving before the echo of this one were sent before it
+    this.unconfirmedSeq = seq;
+    console.log(`Broadcasting media state (${syncType}, seq ${seq}):`, { roomId: roomCode, mediaState });
+    return this.connection.emitState('syncMedia', {
+      roomId: roomCode,
+      mediaState,
+      syncType,
+      timestamp: this.now(),
+      seq
+    });
+  }
+
+  // Applies the membership returned by a successful create or join
+  private enterRoom(data: RoomOpData<'createRoom' | 'joinRoom'>, created: boolean, password?: string) {
+    console.log('Entered room:', data);
+    this.connection?.setRoom({ roomCode: data.roomCode, password });
+    // Versions are per room
+    this.playbackVersion = 0;
+    this.unconfirmedSeq = null;
+    // History and room state follow the acknowledgement, so nothing else is reset here
+    this.setState({
+      roomCode: data.roomCode,
+      role: data.role,
+      settings: data.settings,
+      members: data.members
+    });
+    this.startPresence();
+    // A new room watches whatever its creator has loaded
+    if (created && this.state.localMedia) {
+      this.connection?.emitState('announceMedia', { media: this.state.localMedia });
+    }
+  }
+
+  private handleRejoined(data: RoomOpData<'joinRoom'>) {
+    console.log('Rejoined room:', data);
+    const connection = this.connection;
+    this.setState({ role: data.role, settings: data.settings, members: data.members });
+    // Playback we changed while offline wins if we still control it, otherwise the room's does
+    if (connection?.hasPending('syncMedia')) {
+      if (canControlPlayback(data.role, data.settings)) {
+        this.skipRoomState = true;
+      } else {
+        connection.discardPending('syncMedia');
+      }
+    }
+    // A broadcast lost with the connection is never echoed, only a queued one will be
+    if (!connection?.hasPending('syncMedia')) {
+      this.unconfirmedSeq = null;
+    }
+    if (this.state.localMedia && !connection?.hasPending('announceMedia')) {
+      connection?.emitState('announceMedia', { media: this.state.localMedia });
+    }
+    this.notice(`Rejoined room ${data.roomCode}`, 'success');
+  }
+
+  // Clears everything tied to the current room once we are no longer in it
+  private resetRoom() {
+    this.connection?.setRoom(null);
+    this.stopPresence();
+    this.clearLocalChange();
+    this.releaseSyncTarget();
+    this.skipRoomState = false;
+    this.unconfirmedSeq = null;
+    this.playbackVersion = 0;
+    this.setState(EMPTY_ROOM);
+  }
+
+  private registerHandlers(connection: ConnectionManager) {
+    const socket = connection.socket;
+    const clockSync = this.clockSync;
+
+    socket.on('connect', () => {
+      console.log('Connected to media sync server');
+      this.setState({ isConnected: true });
+      // Re-estimate the clock offset on every connection, the route may have changed
+      clockSync.reset();
+      clockSync.start((clientTime) => socket.emit('clockPing', { clientTime }));
+      this.emit('connected');
+    });
+
+    socket.on('disconnect', () => {
+      console.log('Disconnected from media sync server');
+      this.setState({ isConnected: false });
+      clockSync.stop();
+      if (this.state.roomCode) {
+        this.notice('Connection lost, rejoining the room once reconnected', 'error');
+      }
+    });
+
+    socket.on('clockPong', validated(serverEventValidators, 'clockPong', (data) => {
+      clockSync.handlePong(data.clientTime, data.serverTime);
+      this.setState({ clockStatus: { offset: clockSync.offset, rtt: clockSync.rtt } });
+    }));
+
+    socket.on('connect_error', (error: Error) => {
+      console.error('Connection error:', {
+        message: error.message,
+        serverUrl: this.serverUrl,
+        error: error
+      });
+      this.setState({ isConnected: false });
+      this.notice(`Connection failed: ${error.message}`, 'error');
+    });
+
+    // Reconnection events are emitted by the underlying manager, not the socket
+    socket.io.on('reconnect', () => {
+      console.log('Reconnected to media sync server');
+      this.notice('Reconnected to server', 'success');
+    });
+
+    socket.io.on('reconnect_error', (error) => {
+      console.error('Reconnection error:', error);
+      this.notice('Reconnection failed', 'error');
+    });
+
+    socket.on('roomLeft', validated(serverEventValidators, 'roomLeft', (data) => {
+      console.log('Room left:', data);
+      this.resetRoom();
+      this.notice(`Left room: ${data.roomCode}`, 'success');
+    }));
+
+    socket.on('removedFromRoom', validated(serverEventValidators, 'removedFromRoom', (data) => {
+      console.log('Removed from room:', data);
+      this.resetRoom();
+      this.notice(
+        data.banned ? `You were banned from room ${data.roomCode}` : `You were removed from room ${data.roomCode}`,
+        'error'
+      );
+    }));
+
+    socket.on('roomError', validated(serverEventValidators, 'roomError', (error) => {
+      console.error('Room error:', error);
+      this.notice(error.message || 'Room operation failed', 'error');
+    }));
+
+    socket.on('userJoined', validated(serverEventValidators, 'userJoined', (data) => {
+      console.log('User joined room:', data);
+      const { members } = this.state;
+      // A member who reconnects keeps their entry
+      this.setState({
+        members: members.some(member => member.userId === data.userId)
+          ? members.map(member => member.userId === data.userId ? { ...member, displayName: data.displayName } : member)
+          : [...members, { userId: data.userId, displayName: data.displayName, role: 'viewer', media: null, presence: null }]
+      });
+      this.notice(`${data.displayName} joined the room (${data.userCount} users total)`, 'success');
+    }));
+
+    socket.on('userLeft', validated(serverEventValidators, 'userLeft', (data) => {
+      console.log('User left room:', data);
+      const { members, playbackRequests, typingMembers } = this.state;
+      this.setState({
+        members: members.filter(member => member.userId !== data.userId),
+        playbackRequests: playbackRequests.filter(request => request.userId !== data.userId),
+        typingMembers: withoutTyping(typingMembers, data.userId)
+      });
+      this.notice(`${data.displayName} left the room (${data.userCount} users remaining)`, 'success');
+    }));
+
+    socket.on('roleChanged', validated(serverEventValidators, 'roleChanged', (data) => {
+      console.log('Role changed:', data);
+      this.setState({
+        members: this.state.members.map(member =>
+          member.userId === data.userId ? { ...member, role: data.role } : member
+        )
+      });
+      if (data.userId === this.state.profile?.clientId) {
+        this.setState({ role: data.role });
+        this.dropRefusedBroadcast();
+        if (data.role === 'host') {
+          this.notice('You are now the host', 'success');
+        } else if (data.role === 'cohost') {
+          this.notice('You are now a co-host', 'success');
+        }
+      }
+    }));
+
+    socket.on('roomSettingsChanged', validated(serverEventValidators, 'roomSettingsChanged', (data) => {
+      console.log('Room settings changed:', data);
+      const previous = this.state.settings;
+      this.setState({ settings: data.settings });
+      this.dropRefusedBroadcast();
+      if (data.settings.hostControlsPlayback !== previous.hostControlsPlayback) {
+        this.notice(
+          data.settings.hostControlsPlayback ? 'Host now controls playback' : 'Everyone can control playback',
+          'success'
+        );
+      }
+      if (data.settings.locked !== previous.locked) {
+        this.notice(data.settings.locked ? 'Room locked' : 'Room unlocked', 'success');
+      }
+      if (data.settings.waitForBuffering !== previous.waitForBuffering) {
+        this.notice(
+          data.settings.waitForBuffering ? 'Playback now waits for buffering members' : 'Playback no longer waits for buffering members',
+          'success'
+        );
+      }
+    }));
+
+    socket.on('playbackRequested', validated(serverEventValidators, 'playbackRequested', (data) => {
+      console.log('Playback requested:', data);
+      // Keep only the latest request per user
+      this.setState({
+        playbackRequests: [...this.state.playbackRequests.filter(request => request.userId !== data.userId), data].slice(-5)
+      });
+    }));
+
+    socket.on('syncMedia', validated(serverEventValidators, 'syncMedia', (data) => {
+      console.log('Received sync data:', data);
+
+      if (!this.state.roomCode) {
+        console.warn('Received sync data but not in a room - ignoring');
+        return;
+      }
+
+      // Our own change coming back: it is now the room's state, nothing to apply
+      if (data.senderId === this.state.profile?.clientId) {
+        if (data.seq === this.unconfirmedSeq) {
+          this.unconfirmedSeq = null;
+        }
+        this.playbackVersion = Math.max(this.playbackVersion, data.version);
+        return;
+      }
+
+      if (!this.acceptPlayback(data.version)) return;
+      this.applyRemoteState(
+        { mediaState: data.mediaState, timestamp: data.timestamp, version: data.version },
+        data.syncType,
+        data.senderName
+      );
+    }));
+
+    socket.on('playbackChanged', validated(serverEventValidators, 'playbackChanged', (data) => {
+      console.log('Room playback changed:', data);
+      if (!this.state.roomCode || !this.acceptPlayback(data.playback.version)) return;
+      this.applyRoomPlayback(data.playback, 'AUTO');
+    }));
+
+    socket.on('waitingForMembers', validated(serverEventValidators, 'waitingForMembers', (data) => {
+      this.setState({ waitingFor: data.userIds });
+    }));
+
+    socket.on('queueUpdated', validated(serverEventValidators, 'queueUpdated', (data) => {
+      console.log('Queue updated:', data);
+      const previousId = this.state.queue.currentId;
+      this.setState({ queue: data.queue });
+
+      const current = data.queue.entries.find(entry => entry.id === data.queue.currentId);
+      const localMedia = this.state.localMedia;
+      if (!current || current.id === previousId || (localMedia && isSameMedia(localMedia, current.media))) return;
+      // The room moved on to media we have not loaded, stop playing the previous one
+      this.releaseSyncTarget();
+      this.remotePause();
+      this.notice(`Now playing in the room: ${current.media.name}`, 'success');
+    }));
+
+    socket.on('mediaAnnounced', validated(serverEventValidators, 'mediaAnnounced', (data) => {
+      console.log('Media announced:', data);
+      this.setState({
+        members: this.state.members.map(member =>
+          member.userId === data.userId ? { ...member, media: data.media } : member
+        )
+      });
+    }));
+
+    socket.on('presenceUpdated', validated(serverEventValidators, 'presenceUpdated', (data) => {
+      this.setState({
+        members: this.state.members.map(member =>
+          member.userId === data.userId ? { ...member, presence: data.presence } : member
+        )
+      });
+    }));
+
+    socket.on('profileUpdated', validated(serverEventValidators, 'profileUpdated', (data) => {
+      this.setState({
+        members: this.state.members.map(member =>
+          member.userId === data.userId ? { ...member, displayName: data.displayName } : member
+        )
+      });
+    }));
+
+    socket.on('chatHistory', validated(serverEventValidators, 'chatHistory', (data) => {
+      this.setState({ chatMessages: data.messages });
+    }));
+
+    socket.on('chatMessage', validated(serverEventValidators, 'chatMessage', (message) => {
+      this.setState({
+        chatMessages: [...this.state.chatMessages, message].slice(-CHAT_HISTORY_LIMIT),
+        typingMembers: withoutTyping(this.state.typingMembers, message.userId)
+      });
+    }));
+
+    socket.on('chatTyping', validated(serverEventValidators, 'chatTyping', (data) => {
+      const typingMembers = withoutTyping(this.state.typingMembers, data.userId);
+      this.setState({
+        typingMembers: data.isTyping
+          ? { ...typingMembers, [data.userId]: { displayName: data.displayName, expiresAt: Date.now() + TYPING_REFRESH_MS * 2 } }
+          : typingMembers
+      });
+    }));
+
+    socket.on('reactionHistory', validated(serverEventValidators, 'reactionHistory', (data) => {
+      this.setState({ reactions: data.reactions });
+    }));
+
+    socket.on('reaction', validated(serverEventValidators, 'reaction', (reaction) => {
+      this.setState({ reactions: [...this.state.reactions, reaction].slice(-REACTION_HISTORY_LIMIT) });
+      this.emit('reaction', reaction);
+    }));
+
+    socket.on('roomState', validated(serverEventValidators, 'roomState', (data) => {
+      console.log('Received room state:', data);
+      this.setState({ roomStateMedia: data.media });
+      if (this.skipRoomState) {
+        // Our own offline change is about to replace it
+        this.skipRoomState = false;
+        return;
+      }
+
+      if (!this.loadedPlayer() || !this.state.localMedia) {
+        // Requested again once our media has loaded, see setLocalMedia
+        if (data.media) {
+          this.notice(`Load "${data.media.name}" to catch up with the room`, 'success');
+        }
+        return;
+      }
+
+      // Skipped if already applied, or if a change of ours will replace it
+      if (data.playback && data.playback.version > this.playbackVersion && this.unconfirmedSeq === null) {
+        this.playbackVersion = data.playback.version;
+        this.applyRoomPlayback(data.playback, 'ROOM_STATE');
+      }
+    }));
+  }
+
+  // Presence
+
+  private startPresence() {
+    this.stopPresence();
+    this.sendPresence();
+    this.presenceInterval = setInterval(() => this.sendPresence(), PRESENCE_INTERVAL_MS);
+  }
+
+  private stopPresence() {
+    if (this.presenceInterval) {
+      clearInterval(this.presenceInterval);
+      this.presenceInterval = null;
+    }
+  }
+
+  // Reports our player status to the room's roster
+  private sendPresence() {
+    if (!this.state.roomCode) return;
+
+    const player = this.player;
+    const hasMedia = !!player && !!this.state.localMedia;
+    this.connection?.emit('presenceUpdate', {
+      presence: {
+        position: hasMedia ? positionOf(player) : null,
+        isPlaying: hasMedia && !player.paused(),
+        isBuffering: this.isBuffering,
+        drift: this.drift,
+        rtt: this.clockSync.rtt,
+        playbackRate: this.baseRate,
+        subtitleLanguage: this.subtitleLanguage
+      }
+    });
+  }
+
+  private setBuffering(isBuffering: boolean) {
+    if (this.isBuffering === isBuffering) return;
+    this.isBuffering = isBuffering;
+    this.sendPresence();
+  }
+
+  // Local playback changes
+
+  /**
+   * Reacts to a play/pause/seek on the local player: broadcasts it, or asks the
+   * host for it and snaps back when playback is locked to the host
+   */
+  private handleLocalChange(action: LocalChange) {
+    if (!this.state.roomCode || !this.state.autoSyncEnabled) return;
+    console.log(`Local ${action} detected`);
+
+    if (!this.canControl) {
+      if (this.player && action !== 'rate') {
+        this.connection?.emit('playbackRequest', { action, currentTime: positionOf(this.player) });
+      }
+      this.enforceSyncTarget();
+      return;
+    }
+
+    // The local user took control, stop following the last received state
+    this.releaseSyncTarget();
+    this.clearLocalChange();
+    this.localChangeTimeout = setTimeout(() => this.autoSync(), LOCAL_CHANGE_DEBOUNCE_MS[action]);
+  }
+
+  // Routes a play/pause/seeked event to handleLocalChange unless we caused it ourselves
+  private handlePlayerEvent(action: PlaybackAction) {
+    if (this.consumeExpectedEvent(action)) {
+      console.log(`Remote ${action} applied`);
+      return;
+    }
+    this.handleLocalChange(action);
+  }
+
+  private clearLocalChange() {
+    if (this.localChangeTimeout) {
+      clearTimeout(this.localChangeTimeout);
+      this.localChangeTimeout = null;
+    }
+  }
+
+  private handleTimeUpdate() {
+    const player = this.player;
+    if (!player || !this.state.roomCode || !this.state.autoSyncEnabled) return;
+
+    if (!player.paused() && !player.seeking()) {
+      this.correctDrift();
+    }
+
+    // Periodic sync during playback
+    if (!player.paused() && Date.now() - this.lastAutoSync > PERIODIC_SYNC_INTERVAL_MS) {
+      this.autoSync();
+    }
+  }
+
+  // Moves the room on to the next queue entry when the current one finishes
+  private handleEnded() {
+    const { roomCode, queue, localMedia } = this.state;
+    const current = queue.entries.find(entry => entry.id === queue.currentId);
+    if (!roomCode || !current || !localMedia || !isSameMedia(localMedia, current.media) || !this.canControl) return;
+    this.command('queueAdvance', { entryId: current.id });
+  }
+
+  private handleRateChange() {
+    const player = this.player;
+    if (!player) return;
+    // Rate changes not made by drift correction or a remote change come from the user's rate menu
+    const rate = rateOf(player);
+    if (Math.abs(rate - this.appliedRate) > 0.001) {
+      this.baseRate = rate;
+      this.appliedRate = rate;
+      this.handleLocalChange('rate');
+    }
+  }
+
+  private autoSync() {
+    if (!this.state.roomCode || !this.state.autoSyncEnabled || this.state.isReceivingSync || !this.canControl) {
+      return;
+    }
+
+    const now = Date.now();
+    // Debounce auto-sync to prevent spam
+    if (now - this.lastAutoSync < MIN_AUTO_SYNC_INTERVAL_MS) {
+      return;
+    }
+    this.lastAutoSync = now;
+    this.broadcastPlayback('AUTO');
+  }
+
+  // Remote playback changes
+
+  /**
+   * Whether playback state of the given room version should be applied; if so
+   * the player is considered at that version from now on
+   */
+  private acceptPlayback(version: number): boolean {
+    if (version <= this.playbackVersion) {
+      console.log(`Ignoring stale playback state (version ${version}, at ${this.playbackVersion})`);
+      return false;
+    }
+    if (this.unconfirmedSeq !== null) {
+      console.log(`Ignoring playback state (version ${version}) overtaken by our own change`);
+      return false;
+    }
+    if (!this.loadedPlayer()) {
+      console.warn('Received playback state but no media loaded');
+      return false;
+    }
+    this.playbackVersion = version;
+    return true;
+  }
+
+  // A broadcast the server refuses is never echoed, stop waiting once we may no longer control playback
+  private dropRefusedBroadcast() {
+    if (!this.canControl) {
+      this.unconfirmedSeq = null;
+    }
+  }
+
+  private setExpectedEvents(patch: Partial<ExpectedEvents>) {
+    const expected = { ...this.expectedEvents, ...patch };
+    this.expectedEvents = expected;
+    const isReceivingSync = expected.play || expected.pause || expected.seekTo !== null;
+    if (isReceivingSync !== this.state.isReceivingSync) {
+      this.setState({ isReceivingSync });
+    }
+  }
+
+  private clearExpectedEvents() {
+    this.setExpectedEvents(NO_EXPECTED_EVENTS);
+  }
+
+  /**
+   * Whether a player event is the result of remote state we applied
+   */
+  private consumeExpectedEvent(action: PlaybackAction): boolean {
+    const expected = this.expectedEvents;
+    if (action === 'seek') {
+      if (expected.seekTo === null) return false;
+      this.setExpectedEvents({ seekTo: null });
+      // Seeked fires once for the latest seek; a user seek made meanwhile lands elsewhere
+      return !!this.player && Math.abs(positionOf(this.player) - expected.seekTo) <= SEEK_MATCH_TOLERANCE;
+    }
+    if (!expected[action]) return false;
+    this.setExpectedEvents({ [action]: false });
+    return true;
+  }
+
+  private remotePlay(onPlaying?: () => void) {
+    const player = this.player;
+    if (!player?.paused()) return;
+    this.setExpectedEvents({ play: true });
+    player.play()?.then(onPlaying).catch((error: unknown) => {
+      // A refused play() fires no play event
+      this.setExpectedEvents({ play: false });
+      console.error('Failed to play video:', error);
+      this.notice('Failed to play video - user interaction may be required', 'error');
+    });
+  }
+
+  private remotePause() {
+    const player = this.player;
+    if (!player || player.paused()) return;
+    this.setExpectedEvents({ pause: true });
+    player.pause();
+  }
+
+  private remoteSeek(time: number) {
+    const player = this.player;
+    if (!player) return;
+    this.setExpectedEvents({ seekTo: time });
+    player.currentTime(time);
+  }
+
+  /**
+   * Applies playback state issued by the server rather than a member. Only
+   * these may start at a future instant: a countdown, or resuming together
+   * after buffering.
+   */
+  private applyRoomPlayback(snapshot: PlaybackSnapshot, syncType: SyncType) {
+    if (!this.player) return;
+
+    this.clearScheduledStart();
+    if (snapshot.mediaState.isPlaying && snapshot.timestamp > this.now()) {
+      this.scheduleStart(snapshot);
+      return;
+    }
+    this.applyRemoteState(snapshot, syncType);
+  }
+
+  /**
+   * Brings the local player in line with playback state received from the room
+   */
+  private applyRemoteState(snapshot: PlaybackSnapshot, syncType: SyncType, senderName?: string) {
+    const player = this.player;
+    if (!player) return;
+
+    this.clearScheduledStart();
+    // A member's clock estimate may be off or not measured yet, its state applies from now at the latest
+    const timestamp = Math.min(snapshot.timestamp, this.now());
+
+    const { isPlaying, playbackRate } = snapshot.mediaState;
+    const position = formatTime(snapshot.mediaState.currentTime);
+    const rateChanged = playbackRate !== this.baseRate;
+
+    try {
+      // Applied by correctDrift below, on top of any rate correction
+      this.baseRate = playbackRate;
+
+      // Follow the sender's timeline; drift below the seek threshold is corrected
+      // smoothly on subsequent timeupdates instead of jumping
+      this.syncTarget = { ...snapshot, timestamp };
+      this.correctDrift(SEEK_THRESHOLDS[syncType], syncType);
+
+      if (isPlaying && player.paused()) {
+        this.remotePlay(() => {
+          console.log(`▶️ [${syncType}] Synced to play`);
+        });
+        if (senderName) {
+          this.notice(`${senderName} played at ${position}`, 'success');
+        }
+      } else if (!isPlaying && !player.paused()) {
+        this.remotePause();
+        console.log(`⏸️ [${syncType}] Synced to pause`);
+        if (senderName) {
+          this.notice(`${senderName} paused at ${position}`, 'success');
+        }
+      } else if (rateChanged) {
+        console.log(`⏩ [${syncType}] Synced to ${playbackRate}x`);
+        if (senderName) {
+          this.notice(`${senderName} set the speed to ${playbackRate}x`, 'success');
+        }
+      } else if (syncType === 'MANUAL') {
+        // Show success notification only for manual syncs to avoid spam
+        this.notice(senderName ? `${senderName} synced everyone to ${position}` : 'Media synced', 'success');
+      } else if (syncType === 'ROOM_STATE') {
+        this.notice('Media synced', 'success');
+      }
+    } catch (error) {
+      console.error('Error during sync operation:', error);
+    }
+  }
+
+  /**
+   * Holds the player at the start position of playback that begins at a
+   * future instant, and starts it at that instant
+   */
+  private scheduleStart(snapshot: PlaybackSnapshot) {
+    // Until then the room is paused there, which is also what a locked viewer snaps back to
+    this.syncTarget = { ...snapshot, mediaState: { ...snapshot.mediaState, isPlaying: false } };
+    this.baseRate = snapshot.mediaState.playbackRate;
+    this.remotePause();
+    this.correctDrift(SEEK_THRESHOLDS.MANUAL);
+
+    this.setState({ countdownTo: snapshot.timestamp });
+    this.scheduledStart = setTimeout(() => {
+      this.scheduledStart = null;
+      this.applyRemoteState(snapshot, 'AUTO');
+    }, snapshot.timestamp - this.now());
+    console.log(`⏱️ Starting at ${formatTime(snapshot.mediaState.currentTime)} in ${Math.round(snapshot.timestamp - this.now())}ms`);
+  }
+
+  private clearScheduledStart() {
+    if (this.scheduledStart) {
+      clearTimeout(this.scheduledStart);
+      this.scheduledStart = null;
+    }
+    if (this.state.countdownTo !== null) {
+      this.setState({ countdownTo: null });
+    }
+  }
+
+  // Snaps a locked viewer back to the room's playback after a local play/pause/seek
+  private enforceSyncTarget() {
+    const player = this.player;
+    const target = this.syncTarget;
+    if (!player || !target) return;
+
+    this.baseRate = target.mediaState.playbackRate;
+    this.correctDrift(SEEK_THRESHOLDS.MANUAL);
+    if (target.mediaState.isPlaying) {
+      this.remotePlay();
+    } else {
+      this.remotePause();
+    }
+  }
+
+  private setCorrectionRate(rateFactor: number) {
+    const player = this.player;
+    if (!player) return;
+    const rate = this.baseRate * rateFactor;
+    if (Math.abs(rateOf(player) - rate) > 0.001) {
+      this.appliedRate = rate;
+      player.playbackRate(rate);
+    }
+  }
+
+  // Steers the local player towards the last received sync target
+  private correctDrift(seekThreshold?: number, syncType: SyncType = 'AUTO') {
+    const player = this.player;
+    const target = this.syncTarget;
+    if (!player || !target) return;
+
+    // Where the sender is now, not where it was when the message was sent
+    const targetTime = extrapolatePosition(target.mediaState, target.timestamp, this.now());
+    const drift = positionOf(player) - targetTime;
+    // Rate nudging only makes sense while playing
+    const correction = target.mediaState.isPlaying
+      ? this.driftController.evaluate(drift, seekThreshold)
+      : Math.abs(drift) > (seekThreshold ?? SEEK_THRESHOLDS.AUTO)
+        ? { kind: 'seek' as const }
+        : { kind: 'none' as const, rateFactor: 1 as const };
+
+    if (correction.kind === 'seek') {
+      this.setCorrectionRate(1);
+      this.remoteSeek(targetTime);
+      console.log(`🔄 [${syncType}] Synced time: ${targetTime.toFixed(2)}s (drift: ${drift.toFixed(2)}s)`);
+      this.drift = 0;
+      this.setState({ driftStatus: { drift: 0, rateFactor: 1 } });
+      return;
+    }
+
+    this.setCorrectionRate(correction.rateFactor);
+    this.drift = drift;
+    this.setState({ driftStatus: { drift, rateFactor: correction.rateFactor } });
+  }
+
+  // Stops following the room, e.g. when the local user takes control of playback
+  private releaseSyncTarget() {
+    this.clearScheduledStart();
+    this.syncTarget = null;
+    this.driftController.reset();
+    this.setCorrectionRate(1);
+    this.drift = null;
+    if (this.state.driftStatus) {
+      this.setState({ driftStatus: null });
+    }
+  }
+}
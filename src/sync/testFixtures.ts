@@ -0,0 +1,18 @@
+/**
+ * Fixtures shared by the server and client tests
+ */
+import { MediaIdentity, UserProfile } from './protocol';
+
+/**
+ * Identity of a member, with a client id and secret derived from `name`
+ */
+export function testProfile(name: string): UserProfile {
+  return { clientId: `client-${name}`, clientSecret: `secret-of-${name}-0000`, displayName: name };
+}
+
+export const testMedia: MediaIdentity = {
+  name: 'movie.mp4',
+  size: 1000,
+  duration: 600,
+  hash: '0123456789abcdef0123456789abcdef'
+};
@@ -0,0 +1,89 @@
+/**
+ * Which containers and codecs this browser plays
+ *
+ * Answers come from `canPlayType`, and from Media Source Extensions where
+ * available since they answer more precisely for MP4 codec strings.
+ */
+import { EmbeddedTrack } from '../demux';
+
+export interface CodecSupport {
+  label: string;
+  type: string;
+  supported: boolean;
+}
+
+// Formats listed in the troubleshooting card
+const CODEC_TABLE: Array<{ label: string; type: string }> = [
+  { label: 'MP4 (H.264)', type: 'video/mp4; codecs="avc1.42E01E"' },
+  { label: 'MP4 (H.265/HEVC)', type: 'video/mp4; codecs="hvc1.1.6.L93.B0"' },
+  { label: 'MP4 (AV1)', type: 'video/mp4; codecs="av01.0.05M.08"' },
+  { label: 'WebM (VP8)', type: 'video/webm; codecs="vp8"' },
+  { label: 'WebM (VP9)', type: 'video/webm; codecs="vp9"' },
+  { label: 'WebM (AV1)', type: 'video/webm; codecs="av01.0.05M.08"' },
+  { label: 'OGG (Theora)', type: 'video/ogg; codecs="theora"' },
+  { label: 'QuickTime', type: 'video/quicktime' }
+];
+
+// Codecs of embedded tracks, by Matroska codec ID or MP4 sample entry, as a type to test
+const TRACK_CODEC_TYPES: Record<string, string> = {
+  'V_MPEG4/ISO/AVC': 'video/mp4; codecs="avc1.640028"',
+  'V_MPEGH/ISO/HEVC': 'video/mp4; codecs="hvc1.1.6.L120.90"',
+  'V_AV1': 'video/mp4; codecs="av01.0.08M.08"',
+  'V_VP8': 'video/webm; codecs="vp8"',
+  'V_VP9': 'video/webm; codecs="vp9"',
+  'V_THEORA': 'video/ogg; codecs="theora"',
+  'A_AAC': 'audio/mp4; codecs="mp4a.40.2"',
+  'A_MPEG/L3': 'audio/mpeg',
+  'A_OPUS': 'audio/webm; codecs="opus"',
+  'A_VORBIS': 'audio/webm; codecs="vorbis"',
+  'A_FLAC': 'audio/flac',
+  'A_AC3': 'audio/mp4; codecs="ac-3"',
+  'A_EAC3': 'audio/mp4; codecs="ec-3"',
+  'A_DTS': 'audio/mp4; codecs="dtsc"',
+  'A_TRUEHD': 'audio/mp4; codecs="mlpa"',
+  avc1: 'video/mp4; codecs="avc1.640028"',
+  avc3: 'video/mp4; codecs="avc3.640028"',
+  hvc1: 'video/mp4; codecs="hvc1.1.6.L120.90"',
+  hev1: 'video/mp4; codecs="hev1.1.6.L120.90"',
+  av01: 'video/mp4; codecs="av01.0.08M.08"',
+  vp09: 'video/mp4; codecs="vp09.00.40.08"',
+  mp4a: 'audio/mp4; codecs="mp4a.40.2"',
+  Opus: 'audio/mp4; codecs="opus"',
+  'ac-3': 'audio/mp4; codecs="ac-3"',
+  'ec-3': 'audio/mp4; codecs="ec-3"',
+  fLaC: 'audio/mp4; codecs="flac"'
+};
+
+/**
+ * Whether the browser says it can play media of this MIME type, codecs included
+ */
+export function canPlayMimeType(type: string): boolean {
+  if (typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(type)) {
+    return true;
+  }
+  return document.createElement('video').canPlayType(type) !== '';
+}
+
+export function checkCodecSupport(): CodecSupport[] {
+  return CODEC_TABLE.map(entry => ({ ...entry, supported: canPlayMimeType(entry.type) }));
+}
+
+function codecType(codec: string): string | undefined {
+  // Matroska IDs may carry a profile, e.g. A_AAC/MPEG4/LC
+  return TRACK_CODEC_TYPES[codec] ?? TRACK_CODEC_TYPES[codec.split('/')[0]];
+}
+
+/**
+ * Video tracks and the default audio track whose codec this browser cannot
+ * decode. Codecs missing from the table are assumed to play.
+ */
+export function unplayableTracks(tracks: EmbeddedTrack[]): EmbeddedTrack[] {
+  const audio = tracks.filter(track => track.kind === 'audio');
+  const defaultAudio = audio.find(track => track.isDefault) ?? audio[0];
+  return tracks
+    .filter(track => track.kind === 'video' || track === defaultAudio)
+    .filter(track => {
+      const type = codecType(track.codec);
+      return type !== undefined && !canPlayMimeType(type);
+    });
+}
@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { computeMediaFingerprint, computeUrlFingerprint } from './mediaFingerprint';
+
+describe('media fingerprints', () => {
+  // Large enough to be sampled rather than hashed whole
+  const file = new File([Uint8Array.from({ length: 3 * 1024 * 1024 }, (_, i) => (i * 13) & 0xff)], 'movie.mp4');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('are the same with and without SubtleCrypto', async () => {
+    const withSubtle = await computeMediaFingerprint(file, 600);
+    const withSubtleUrl = await computeUrlFingerprint('https://example.com/movie.mp4', 600);
+
+    // As in non-secure contexts, where browsers do not expose crypto.subtle
+    vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) });
+    const withoutSubtle = await computeMediaFingerprint(file, 600);
+    const withoutSubtleUrl = await computeUrlFingerprint('https://example.com/movie.mp4', 600);
+
+    expect(withSubtle.hash).toMatch(/^[0-9a-f]{32}$/);
+    expect(withoutSubtle).toEqual(withSubtle);
+    expect(withoutSubtleUrl).toEqual(withSubtleUrl);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Media fingerprinting so peers can check they loaded the same file
+ *
+ * Hashing a multi-gigabyte file is too slow, so only a few evenly spaced byte
+ * ranges are hashed, together with the file size. Nothing leaves the browser
+ * except the resulting digest.
+ */
+import { MediaIdentity } from '../sync/protocol';
+import { mediaUrlName } from './mediaSource';
+import { sha256 } from './sha256';
+
+const SAMPLE_COUNT = 8;
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Byte ranges [start, end) to sample, always including the start and the end of the file
+ */
+function sampleRanges(size: number): Array<[number, number]> {
+  if (size <= SAMPLE_COUNT * SAMPLE_SIZE) {
+    return [[0, size]];
+  }
+
+  const ranges: Array<[number, number]> = [];
+  const step = (size - SAMPLE_SIZE) / (SAMPLE_COUNT - 1);
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const start = Math.floor(i * step);
+    ranges.push([start, start + SAMPLE_SIZE]);
+  }
+  return ranges;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 truncated to 128 bits, which are plenty to tell files apart. The
+ * same in secure and non-secure contexts, so peers always agree.
+ */
+async function digest(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const hash = typeof crypto !== 'undefined' && crypto.subtle
+    ? new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+    : sha256(data);
+  return toHex(hash).slice(0, 32);
+}
+
+/**
+ * Fingerprints a local file. `duration` comes from the player's metadata.
+ */
+export async function computeMediaFingerprint(file: File, duration: number): Promise<MediaIdentity> {
+  const ranges = sampleRanges(file.size);
+  const chunks = await Promise.all(
+    ranges.map(([start, end]) => file.slice(start, end).arrayBuffer())
+  );
+
+  // Prefix with the size so truncated copies don't collide with the original
+  const sizeBytes = new TextEncoder().encode(`${file.size}:`);
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.byteLength, sizeBytes.length);
+  const data = new Uint8Array(totalLength);
+  data.set(sizeBytes, 0);
+  let offset = sizeBytes.length;
+  for (const chunk of chunks) {
+    data.set(new Uint8Array(chunk), offset);
+    offset += chunk.byteLength;
+  }
+
+  return {
+    name: file.name,
+    size: file.size,
+    duration,
+    hash: await digest(data)
+  };
+}
+
+/**
+ * Reads a file's duration (s) from its metadata, without a player
+ */
+function probeDuration(file: File): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    const cleanUp = () => {
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      video.load();
+    };
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      const duration = video.duration;
+      cleanUp();
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    video.onerror = () => {
+      cleanUp();
+      reject(new Error(`Cannot read the metadata of ${file.name}`));
+    };
+    video.src = url;
+  });
+}
+
+/**
+ * Fingerprints a file that is not loaded in the player, e.g. one added to the room's queue
+ */
+export async function identifyMediaFile(file: File): Promise<MediaIdentity> {
+  return computeMediaFingerprint(file, await probeDuration(file));
+}
+
+/**
+ * Fingerprints remote media by its address; everyone streaming it gets the same file
+ */
+export async function computeUrlFingerprint(url: string, duration: number): Promise<MediaIdentity> {
+  return {
+    // Names are limited to 512 characters on the wire
+    name: mediaUrlName(url).slice(0, 512),
+    size: 0,
+    duration,
+    hash: await digest(new TextEncoder().encode(`url:${url}`)),
+    url
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * What the player can load: a local file, or media streamed from a URL
+ *
+ * Remote media can be a progressive file (MP4, WebM) or an adaptive stream,
+ * HLS (.m3u8) or DASH (.mpd), which Video.js plays through its bundled
+ * http-streaming engine.
+ */
+
+export type PlayerSource =
+  // `remuxed` is played instead of the file when the file was converted to MP4; the file still identifies the media
+  | { kind: 'file'; file: File; remuxed?: Blob }
+  | { kind: 'url'; url: string };
+
+// Video.js picks the playback tech by MIME type, and cannot guess WebM or adaptive streams by itself on every browser
+const URL_EXTENSION_TYPES: Record<string, string> = {
+  m3u8: 'application/x-mpegURL',
+  mpd: 'application/dash+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+  ogg: 'video/ogg'
+};
+
+function urlExtension(url: string): string {
+  try {
+    const { pathname } = new URL(url);
+    const match = /\.([a-z0-9]+)$/i.exec(pathname);
+    return match ? match[1].toLowerCase() : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * MIME type of the media at `url`, guessed from its extension. Undefined leaves the guess to Video.js.
+ */
+export function mediaUrlType(url: string): string | undefined {
+  return URL_EXTENSION_TYPES[urlExtension(url)];
+}
+
+/**
+ * A readable name for remote media: the last path segment, else the host
+ */
+export function mediaUrlName(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const segment = pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * The host serving remote media, shown before streaming from it
+ */
+export function mediaUrlHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+export function sourceName(source: PlayerSource): string {
+  return source.kind === 'file' ? source.file.name : mediaUrlName(source.url);
+}
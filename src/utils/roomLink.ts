@@ -0,0 +1,41 @@
+/**
+ * Room deep links: /player/?room=ABC123
+ *
+ * The app is a static export, so the room is carried in the query string and
+ * read on the client; the page path is taken from the current location so
+ * links keep working under trailing slashes and sub-path deployments.
+ */
+
+const ROOM_PARAM = 'room';
+
+/**
+ * The room code in the current URL, if any
+ */
+export function readRoomFromUrl(): string | null {
+  const code = new URLSearchParams(window.location.search).get(ROOM_PARAM)?.trim();
+  return code ? code.toUpperCase() : null;
+}
+
+/**
+ * Link that opens the player and joins `roomCode`
+ */
+export function buildInviteLink(roomCode: string): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(ROOM_PARAM, roomCode);
+  return url.toString();
+}
+
+/**
+ * Reflects the current room in the address bar without a navigation, so a reload rejoins it
+ */
+export function setRoomInUrl(roomCode: string | null) {
+  const url = new URL(window.location.href);
+  if (roomCode) {
+    url.searchParams.set(ROOM_PARAM, roomCode);
+  } else {
+    url.searchParams.delete(ROOM_PARAM);
+  }
+  window.history.replaceState(window.history.state, '', url.toString());
+}
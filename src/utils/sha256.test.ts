@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { sha256 } from './sha256';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+const digestOf = (text: string) => hex(sha256(new TextEncoder().encode(text)));
+
+describe('sha256', () => {
+  // Test vectors of FIPS 180-2
+  it('matches the known digests', () => {
+    expect(digestOf('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(digestOf('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    // Two blocks, the length no longer fits after the padding of the first
+    expect(digestOf('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    expect(digestOf('a'.repeat(1000000))).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+  });
+
+  it('agrees with SubtleCrypto around block boundaries', async () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120, 128]) {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+      const expected = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+      expect(hex(sha256(data)), `${length} bytes`).toBe(hex(expected));
+    }
+  });
+});
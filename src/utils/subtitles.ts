@@ -0,0 +1,227 @@
+/**
+ * Subtitle files loaded next to the media
+ *
+ * SRT and ASS/SSA files are converted to WebVTT in the browser, then parsed
+ * into cues the player adds to a Video.js text track. Cues are kept unshifted
+ * so the user's timing offset can be changed without reading the file again.
+ */
+
+export interface SubtitleCue {
+  // Seconds
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SubtitleFile {
+  label: string;
+  // BCP 47 tag guessed from the file name ("movie.en.srt"), empty if unknown
+  language: string;
+  cues: SubtitleCue[];
+}
+
+// Subtitle files the player accepts, for the file picker and drag-and-drop
+export const SUBTITLE_FILE_ACCEPT = '.srt,.vtt,.ass,.ssa,text/vtt';
+
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa'];
+
+function fileExtension(name: string): string {
+  return name.toLowerCase().split('.').pop() ?? '';
+}
+
+export function isSubtitleFile(file: File): boolean {
+  return SUBTITLE_EXTENSIONS.includes(fileExtension(file.name));
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+function formatVttTime(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Converts SubRip to WebVTT: a header, and dots instead of commas in the timings
+ */
+export function srtToVtt(srt: string): string {
+  const lines = normalizeLineEndings(srt).trim().split('\n').map(line =>
+    line.includes('-->')
+      ? line.replace(/(\d+):(\d{2}):(\d{2})[,.](\d{1,3})/g, (_, h: string, m: string, s: string, ms: string) =>
+        `${h.padStart(2, '0')}:${m}:${s}.${ms.padEnd(3, '0')}`)
+      : line
+  );
+  return `WEBVTT\n\n${lines.join('\n')}\n`;
+}
+
+// "H:MM:SS.cc" (centiseconds)
+function parseAssTime(value: string | undefined): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2})\.(\d{1,3})$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  const [, h, m, s, fraction] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(`0.${fraction}`);
+}
+
+/**
+ * Turns the text of an ASS dialogue line into WebVTT cue text, dropping
+ * override blocks ({\i1}, {\pos(...)}) and unescaping line breaks
+ */
+export function assTextToVtt(text: string): string {
+  return text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\[Nn]/g, '\n')
+    .replace(/\\h/g, ' ')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Converts the dialogue of an ASS/SSA file to WebVTT. Styles and positioning are not carried over.
+ */
+export function assToVtt(ass: string): string {
+  const cues: SubtitleCue[] = [];
+  let inEvents = false;
+  let format: string[] | null = null;
+
+  for (const line of normalizeLineEndings(ass).split('\n')) {
+    const trimmed = line.trim();
+    if (/^\[.*\]$/.test(trimmed)) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      continue;
+    }
+    const colon = trimmed.indexOf(':');
+    if (!inEvents || colon < 0) continue;
+
+    const kind = trimmed.slice(0, colon).toLowerCase();
+    const rest = trimmed.slice(colon + 1).trim();
+    if (kind === 'format') {
+      format = rest.split(',').map(field => field.trim().toLowerCase());
+    } else if (kind === 'dialogue' && format) {
+      // Text is the last field and may itself contain commas
+      const fields = rest.split(',');
+      const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')];
+      const field = (name: string) => values[format!.indexOf(name)];
+      const start = parseAssTime(field('start'));
+      const end = parseAssTime(field('end'));
+      const text = assTextToVtt(field('text') ?? '');
+      if (start !== null && end !== null && end > start && text) {
+        cues.push({ start, end, text });
+      }
+    }
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  const blocks = cues.map(cue => `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${cue.text}`);
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+// "HH:MM:SS.mmm" or "MM:SS.mmm"
+function parseVttTime(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/.exec(value.trim());
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms) / 1000;
+}
+
+/**
+ * Reads the cues of a WebVTT document. Cue settings and regions are ignored.
+ */
+export function parseVtt(vtt: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  for (const block of normalizeLineEndings(vtt).split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) continue;
+
+    const [startText, endAndSettings] = lines[timingIndex].split('-->');
+    const start = parseVttTime(startText);
+    const end = parseVttTime(endAndSettings.trim().split(/\s+/)[0] ?? '');
+    const text = lines.slice(timingIndex + 1).join('\n').trim();
+    if (start !== null && end !== null && end > start && text) {
+      cues.push({ start, end, text });
+    }
+  }
+  return cues;
+}
+
+function guessLanguage(name: string): string {
+  const parts = name.split('.');
+  const candidate = parts.length > 2 ? parts[parts.length - 2] : '';
+  return /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/i.test(candidate) ? candidate : '';
+}
+
+/**
+ * Reads a subtitle file, converting it to WebVTT first
+ */
+export async function readSubtitleFile(file: File): Promise<SubtitleFile> {
+  const text = await file.text();
+  const extension = fileExtension(file.name);
+  const vtt = extension === 'srt' ? srtToVtt(text)
+    : extension === 'ass' || extension === 'ssa' ? assToVtt(text)
+    : text;
+
+  const cues = parseVtt(vtt);
+  if (cues.length === 0) {
+    throw new Error(`No subtitles found in ${file.name}`);
+  }
+  return { label: file.name.replace(/\.[^.]+$/, ''), language: guessLanguage(file.name), cues };
+}
+
+/**
+ * Replaces the cues of `track` with `cues`, shifted by `offset` seconds
+ */
+export function fillTextTrack(track: TextTrack, cues: SubtitleCue[], offset: number) {
+  while (track.cues && track.cues.length > 0) {
+    track.removeCue(track.cues[0]);
+  }
+  for (const cue of cues) {
+    const start = cue.start + offset;
+    const end = cue.end + offset;
+    if (end > 0) {
+      track.addCue(new VTTCue(Math.max(0, start), end, cue.text));
+    }
+  }
+}
+
+/**
+ * Subtitle appearance, applied through the player's text track settings
+ */
+export interface SubtitleStyle {
+  // Relative to the default size, e.g. '1.50'
+  fontPercent: string;
+  color: string;
+  // '1' opaque, '0.5' semi-transparent, '0' no background
+  backgroundOpacity: string;
+}
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontPercent: '1.00',
+  color: '#FFF',
+  backgroundOpacity: '1'
+};
+
+const SUBTITLE_STYLE_KEY = 'subtitleStyle';
+
+export function loadSubtitleStyle(): SubtitleStyle {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SUBTITLE_STYLE_KEY) ?? 'null');
+    return { ...DEFAULT_SUBTITLE_STYLE, ...stored };
+  } catch {
+    return DEFAULT_SUBTITLE_STYLE;
+  }
+}
+
+export function saveSubtitleStyle(style: SubtitleStyle) {
+  localStorage.setItem(SUBTITLE_STYLE_KEY, JSON.stringify(style));
+}
@@ -0,0 +1,57 @@
+/**
+ * Persistent identity for the sync rooms
+ *
+ * The client id and secret are generated on first use and kept in
+ * localStorage, so the server recognises a member after a reload or
+ * reconnect. The id is public, the secret proves we own it.
+ */
+import { UserProfile, normalizeDisplayName } from '../sync/protocol';
+
+const CLIENT_ID_KEY = 'clientId';
+const CLIENT_SECRET_KEY = 'clientSecret';
+const DISPLAY_NAME_KEY = 'displayName';
+
+function generateRandomId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID is only available in secure contexts, getRandomValues everywhere
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function defaultDisplayName(clientId: string): string {
+  return `Guest ${clientId.replace(/[^A-Za-z0-9]/g, '').slice(0, 4).toUpperCase()}`;
+}
+
+// The stored value under `key`, replaced with a new random id if missing or malformed
+function loadRandomId(key: string, pattern: RegExp): string {
+  let value = localStorage.getItem(key);
+  if (!value || !pattern.test(value)) {
+    value = generateRandomId();
+    localStorage.setItem(key, value);
+  }
+  return value;
+}
+
+/**
+ * Loads the stored profile, creating and storing a client id and secret on first use
+ */
+export function loadUserProfile(): UserProfile {
+  const clientId = loadRandomId(CLIENT_ID_KEY, /^[A-Za-z0-9_-]{8,64}$/);
+  const clientSecret = loadRandomId(CLIENT_SECRET_KEY, /^[A-Za-z0-9_-]{16,64}$/);
+
+  const displayName = normalizeDisplayName(localStorage.getItem(DISPLAY_NAME_KEY) ?? '');
+  return { clientId, clientSecret, displayName: displayName ?? defaultDisplayName(clientId) };
+}
+
+/**
+ * Stores a new display name, returning the normalised name or null if it is empty
+ */
+export function saveDisplayName(name: string): string | null {
+  const displayName = normalizeDisplayName(name);
+  if (displayName) {
+    localStorage.setItem(DISPLAY_NAME_KEY, displayName);
+  }
+  return displayName;
+}